@@ -14,6 +14,12 @@ export default class Util {
 
   public static DEFAULT_TIME_ZONE = 'America/New_York';
 
+  /**
+   * A recurring day of 31 falls on the last day of every month. Config cells
+   * can say "last day" instead.
+   */
+  public static LAST_DAY_OF_MONTH = 31;
+
   /**
    * Formats an amount into a money string like $1,556.01.
    * - If there are no cents, rounds. Like $1,556
@@ -62,13 +68,18 @@ export default class Util {
   /**
    * Returns the date for the next occurence of the input day. If today is Jan
    * 5, and the input is 10, returns Jan 10. If the input is 3, returns Feb 3.
-   * Validates that the input is a valid recurring date in [1, 28].
+   * Days past the end of a month fall on its last day, so if today is Feb 5
+   * and the input is 30, returns Feb 28 or 29. Validates that the input is a
+   * valid recurring date in [1, 31].
    */
-  static getNextDayOfMonth(dayOfMonth: number): Date {
+  static getNextDayOfMonth(dayOfMonth: number, today = new Date()): Date {
     Util.validateRecurringDayOfMonth(dayOfMonth);
-    const date = new Date();
-    if (dayOfMonth <= date.getDate()) date.setMonth(date.getMonth() + 1);
-    date.setDate(dayOfMonth);
+    const thisMonth = new Date(today.getTime());
+    thisMonth.setDate(1);
+    let date = Util.addMonths(thisMonth, 0, dayOfMonth);
+    if (date.getDate() <= today.getDate()) {
+      date = Util.addMonths(thisMonth, 1, dayOfMonth);
+    }
     return date;
   }
 
@@ -76,15 +87,63 @@ export default class Util {
     return Util.dateString(Util.getNextDayOfMonth(dayOfMonth));
   }
 
-  /** Validates that `day` is in [1, 28], making it valid in every month. */
+  /**
+   * Validates that `day` is in [1, 31]. Days past the end of a short month
+   * fall on its last day.
+   */
   static validateRecurringDayOfMonth(day: number) {
-    if (!Number.isInteger(day) || day < 1 || day > 28) {
+    if (!Number.isInteger(day) || day < 1 || day > Util.LAST_DAY_OF_MONTH) {
       throw new Error(
-          'Day of month must be a whole number from 1 to 28 to ' +
-          `valid in all months. Got ${day}`);
+          'Day of month must be a whole number from 1 to 31, or "last day". ' +
+          `Got ${day}`);
     }
   }
 
+  /** Parses a day of the month from a config cell. See LAST_DAY_OF_MONTH. */
+  static parseDayOfMonth(value: unknown): number {
+    if (String(value).trim().toLowerCase() === 'last day') {
+      return Util.LAST_DAY_OF_MONTH;
+    }
+    return Number(value);
+  }
+
+  /** Returns the timestamp of midnight at the start of the date's day. */
+  static getDayStart(date: Date): number {
+    const dateCopy = new Date(date.getTime());
+    dateCopy.setHours(0, 0, 0, 0);
+    return dateCopy.getTime();
+  }
+
+  /** Returns a new date that is `days` days after `date`. */
+  static addDays(date: Date, days: number): Date {
+    const result = new Date(date.getTime());
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  /** Returns the number of whole days from `start` to `end`. */
+  static daysBetween(start: Date, end: Date): number {
+    // Rounded, because days that cross a DST change are not 24h long.
+    return Math.round(
+        (Util.getDayStart(end) - Util.getDayStart(start)) / Util.DAY_IN_MILLIS);
+  }
+
+  /**
+   * Returns a new date that is `months` months after `date`, on the same day of
+   * the month, or on `dayOfMonth` if given. If the target month is too short,
+   * uses its last day.
+   */
+  static addMonths(date: Date, months: number, dayOfMonth = date.getDate()):
+      Date {
+    const result = new Date(date.getTime());
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const daysInMonth =
+        new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(dayOfMonth, daysInMonth));
+    return result;
+  }
+
   static convertTimeZone(date: Date, timeZone = Util.DEFAULT_TIME_ZONE) {
     return new Date(date.toLocaleString('en-US', {timeZone}));
   }
@@ -0,0 +1,61 @@
+import {BalanceRow} from './balance_sheet';
+
+export default class Allocation {
+  /**
+   * Splits each loan payment into the interest and the principal it pays off.
+   * A payment first pays off the interest that has been posted and not yet
+   * paid, and the rest goes to the principal.
+   * @param ledger Newest first, like in the Balance sheet.
+   * @returns The split of each row, in the same order as the ledger, or null
+   *     for rows that aren't payments.
+   */
+  static splitPayments(ledger: LedgerEntry[]): Array<PaymentSplit|null> {
+    let unpaidInterest = 0;
+    const splits: Array<PaymentSplit|null> = [];
+    for (let i = ledger.length - 1; i >= 0; i--) {
+      const {type, transaction} = ledger[i];
+      const amount = typeof transaction === 'number' && !isNaN(transaction) ?
+          transaction :
+          0;
+      if (type === 'Interest') {
+        unpaidInterest = Allocation.roundToCents(unpaidInterest - amount);
+        splits[i] = null;
+      } else if (type === 'Payment') {
+        const interest = Math.min(Math.max(amount, 0), unpaidInterest);
+        unpaidInterest = Allocation.roundToCents(unpaidInterest - interest);
+        splits[i] = {
+          interest,
+          principal: Allocation.roundToCents(amount - interest),
+        };
+      } else {
+        splits[i] = null;
+      }
+    }
+    return splits;
+  }
+
+  /** Returns the total interest and principal paid so far. */
+  static getTotals(ledger: LedgerEntry[]): PaymentSplit {
+    const totals = {interest: 0, principal: 0};
+    for (const split of Allocation.splitPayments(ledger)) {
+      if (!split) continue;
+      totals.interest += split.interest;
+      totals.principal += split.principal;
+    }
+    return {
+      interest: Allocation.roundToCents(totals.interest),
+      principal: Allocation.roundToCents(totals.principal),
+    };
+  }
+
+  private static roundToCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+type LedgerEntry = Pick<BalanceRow, 'transaction'|'type'>;
+
+export interface PaymentSplit {
+  interest: number;
+  principal: number;
+}
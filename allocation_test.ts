@@ -0,0 +1,84 @@
+import {JASLib} from 'jas_api';
+
+import Allocation from './allocation';
+import {BalanceRow, TransactionType} from './balance_sheet';
+import Tester from './testing/tester';
+
+export default class AllocationTest implements JASLib.Test {
+  readonly name: string = 'AllocationTest';
+
+  run(t: Tester) {
+    /** @param rows [transaction, type], oldest first for readability. */
+    const makeLedger = (rows: Array<[number, TransactionType]>): BalanceRow[] =>
+        rows.map(([transaction, type], i) => ({
+                   date: new Date(2020, 0, i + 1),
+                   description: type,
+                   transaction,
+                   type,
+                 }))
+            .reverse();
+
+    t.describe('splitPayments', () => {
+      t.it('pays unpaid interest before principal', () => {
+        const ledger = makeLedger([
+          [-1000, 'Disbursement'],
+          [-5, 'Interest'],
+          [20, 'Payment'],
+        ]);
+        t.expect(Allocation.splitPayments(ledger)).toEqual([
+          {interest: 5, principal: 15},
+          null,
+          null,
+        ]);
+      });
+
+      t.it('carries interest over to later payments', () => {
+        const ledger = makeLedger([
+          [-1000, 'Disbursement'],
+          [-5, 'Interest'],
+          [3, 'Payment'],
+          [-4.5, 'Interest'],
+          [10, 'Payment'],
+        ]);
+        t.expect(Allocation.splitPayments(ledger)).toEqual([
+          {interest: 6.5, principal: 3.5},
+          null,
+          {interest: 3, principal: 0},
+          null,
+          null,
+        ]);
+      });
+
+      t.it('puts payments with no unpaid interest into principal', () => {
+        const ledger = makeLedger([[-1000, 'Disbursement'], [50, 'Payment']]);
+        t.expect(Allocation.splitPayments(ledger)[0])
+            .toEqual({interest: 0, principal: 50});
+      });
+
+      t.it('rounds to cents', () => {
+        const ledger = makeLedger([[-0.1, 'Interest'], [0.3, 'Payment']]);
+        t.expect(Allocation.splitPayments(ledger)[0])
+            .toEqual({interest: 0.1, principal: 0.2});
+      });
+    });
+
+    t.describe('getTotals', () => {
+      t.it('sums the splits of every payment', () => {
+        const ledger = makeLedger([
+          [-1000, 'Disbursement'],
+          [-5, 'Interest'],
+          [20, 'Payment'],
+          [-4.5, 'Interest'],
+          [30, 'Payment'],
+        ]);
+        t.expect(Allocation.getTotals(ledger))
+            .toEqual({interest: 9.5, principal: 40.5});
+      });
+
+      t.it('is zero without payments', () => {
+        t.expect(Allocation.getTotals(makeLedger([[-5, 'Interest']])))
+            .toEqual({interest: 0, principal: 0});
+      });
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import Util from './_util';
+import {BalanceRow} from './balance_sheet';
+import {LoanConfig, LoanTermConfig} from './config';
+import GeneratedSheet from './generated_sheet';
+
+export default class Amortization {
+  static readonly SHEET_NAME = 'Amortization';
+
+  static readonly HEADERS = [
+    'Period',
+    'Due date',
+    'Payment',
+    'Principal',
+    'Interest',
+    'Remaining balance',
+    'Paid to date',
+    'Ahead/behind',
+  ];
+
+  /**
+   * Returns the level monthly payment that pays off the loan in exactly the
+   * term, rounded to the cent.
+   */
+  static getMonthlyPayment(term: LoanTermConfig, interestRate: number): number {
+    const {principal, termMonths} = term;
+    const monthlyRate = interestRate / 12;
+    if (!monthlyRate) return Amortization.roundToCents(principal / termMonths);
+    return Amortization.roundToCents(
+        principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths)));
+  }
+
+  /**
+   * Returns the scheduled principal and interest of every payment. Because of
+   * rounding, the last payment is adjusted to pay off exactly what is left.
+   */
+  static getSchedule(loanConfig: LoanConfig): AmortizationPeriod[] {
+    const {term, interestRate} = loanConfig;
+    const monthlyPayment = Amortization.getMonthlyPayment(term, interestRate);
+    const periods: AmortizationPeriod[] = [];
+
+    let balance = term.principal;
+    for (let period = 1; period <= term.termMonths; period++) {
+      const interest = Amortization.roundToCents(balance * interestRate / 12);
+      const principal = period === term.termMonths ?
+          balance :
+          Math.min(
+              Amortization.roundToCents(monthlyPayment - interest), balance);
+      balance = Amortization.roundToCents(balance - principal);
+      periods.push({
+        period,
+        dueDate: Util.addMonths(term.startDate, period),
+        payment: Amortization.roundToCents(principal + interest),
+        principal,
+        interest,
+        balance,
+      });
+    }
+    return periods;
+  }
+
+  /**
+   * Returns the contents of the Amortization sheet, including the header row.
+   * For every period that is already due, compares the payments in the ledger
+   * to the scheduled payments. A negative difference means the borrower is
+   * behind schedule.
+   */
+  static getSheetValues(
+      loanConfig: LoanConfig, ledger: BalanceRow[], today: Date): unknown[][] {
+    const payments = ledger.filter(entry => entry.type === 'Payment');
+    const todayStart = Util.getDayStart(today);
+
+    let scheduledToDate = 0;
+    const rows = Amortization.getSchedule(loanConfig).map(p => {
+      scheduledToDate = Amortization.roundToCents(scheduledToDate + p.payment);
+      const row: unknown[] = [
+        p.period,
+        p.dueDate,
+        p.payment,
+        p.principal,
+        p.interest,
+        p.balance,
+      ];
+      const dueDayStart = Util.getDayStart(p.dueDate);
+      if (dueDayStart > todayStart) return [...row, '', ''];
+
+      const paidToDate = Amortization.roundToCents(
+          payments.filter(entry => Util.getDayStart(entry.date) <= dueDayStart)
+              .reduce(
+                  (sum, entry) => sum + (Number(entry.transaction) || 0), 0));
+      return [
+        ...row,
+        paidToDate,
+        Amortization.roundToCents(paidToDate - scheduledToDate),
+      ];
+    });
+
+    return [Amortization.HEADERS, ...rows];
+  }
+
+  /**
+   * Writes the schedule to the Amortization sheet, creating the sheet if
+   * needed.
+   */
+  static updateSheet(
+      loanConfig: LoanConfig, ledger: BalanceRow[], today: Date) {
+    GeneratedSheet.write(
+        Amortization.SHEET_NAME,
+        Amortization.getSheetValues(loanConfig, ledger, today), [
+          {column: 2, numColumns: 1, format: 'mmm d, yyyy'},
+          {
+            column: 3,
+            numColumns: Amortization.HEADERS.length - 2,
+            format: '$#,##0.00',
+          },
+        ]);
+  }
+
+  private static roundToCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export interface AmortizationPeriod {
+  period: number;
+  dueDate: Date;
+  payment: number;
+  principal: number;
+  interest: number;
+  /** Remaining principal after the payment. */
+  balance: number;
+}
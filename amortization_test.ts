@@ -0,0 +1,90 @@
+import {JASLib} from 'jas_api';
+
+import Amortization from './amortization';
+import {BalanceRow} from './balance_sheet';
+import Config from './config';
+import Tester from './testing/tester';
+
+export default class AmortizationTest implements JASLib.Test {
+  readonly name: string = 'AmortizationTest';
+
+  run(t: Tester) {
+    const {loanConfig} = Config.getLoanConfigForTest(undefined, {
+      loanConfig: {
+        interestRate: 0.06,
+        term: {
+          principal: 10000,
+          startDate: new Date(2020, 0, 31),
+          termMonths: 36,
+        },
+      },
+    });
+
+    t.describe('getMonthlyPayment', () => {
+      t.it('computes the level payment', () => {
+        t.expect(Amortization.getMonthlyPayment(loanConfig.term, 0.06))
+            .toBe(304.22);
+      });
+
+      t.it('divides the principal evenly without interest', () => {
+        t.expect(Amortization.getMonthlyPayment(loanConfig.term, 0))
+            .toBe(277.78);
+      });
+    });
+
+    t.describe('getSchedule', () => {
+      const schedule = Amortization.getSchedule(loanConfig);
+
+      t.it('has one period per month of the term', () => {
+        t.expect(schedule.length).toBe(36);
+        t.expect(schedule[0].dueDate).toEqual(new Date(2020, 1, 29));
+        t.expect(schedule[35].dueDate).toEqual(new Date(2023, 0, 31));
+      });
+
+      t.it('splits the first payment into interest and principal', () => {
+        t.expect(schedule[0].interest).toBe(50);
+        t.expect(schedule[0].principal).toBe(254.22);
+        t.expect(schedule[0].balance).toBe(9745.78);
+      });
+
+      t.it('pays off the loan exactly', () => {
+        const totalPrincipal =
+            schedule.reduce((sum, p) => sum + p.principal, 0);
+        t.expect(Math.round(totalPrincipal * 100) / 100).toBe(10000);
+        t.expect(schedule[35].balance).toBe(0);
+      });
+    });
+
+    t.describe('getSheetValues', () => {
+      const payment =
+          (month: number, day: number, transaction: number): BalanceRow => ({
+            date: new Date(2020, month, day),
+            description: 'Loan payment',
+            transaction,
+            type: 'Payment',
+          });
+
+      t.it('compares payments only for periods that are due', () => {
+        const values = Amortization.getSheetValues(
+            loanConfig, [payment(1, 20, 304.22)], new Date(2020, 2, 1));
+
+        t.expect(values[0]).toEqual(Amortization.HEADERS);
+        t.expect(values.length).toBe(37);
+        t.expect(values[1].slice(6)).toEqual([304.22, 0]);
+        t.expect(values[2].slice(6)).toEqual(['', '']);
+      });
+
+      t.it('shows how far behind schedule the borrower is', () => {
+        const values = Amortization.getSheetValues(
+            loanConfig,
+            [
+              payment(2, 30, 200),
+              payment(1, 20, 304.22),
+            ],
+            new Date(2020, 3, 1));
+
+        t.expect(values[2].slice(6)).toEqual([504.22, -104.22]);
+      });
+    });
+  }
+}
@@ -1,13 +1,54 @@
 import {SSLib} from 'ss_api';
 
 import Util from './_util';
-import Config from './config';
-
-
+import Allocation from './allocation';
+import Amortization from './amortization';
+import Charges from './charges';
+import Config, {ConfigParams, LoanConfig} from './config';
+import EmailSender from './email_sender';
+import Forecast from './forecast';
+import Interest from './interest';
+import LateFee from './late_fee';
+import Payoff from './payoff';
+import Rent from './rent';
+import Schedule from './schedule';
+import Scheduled, {ScheduledItem} from './scheduled';
+
+type Sheet = GoogleAppsScript.Spreadsheet.Sheet;
 
 export default class BalanceSheet {
   static readonly SHEET_NAME = 'Balance';
 
+  /** Hidden column that holds the source of a payment, like a message id. */
+  static readonly REFERENCE_COLUMN_NAME = 'reference';
+  /** The reference of rows that were added through the transaction form. */
+  static readonly MANUAL_REFERENCE = 'Transaction form';
+  static readonly TYPE_COLUMN_NAME = 'type';
+
+  /** Loan sheets split each payment into these columns. See Allocation. */
+  static readonly PRINCIPAL_COLUMN_NAME = 'principal';
+  static readonly INTEREST_COLUMN_NAME = 'interest';
+
+  /** Values of the type column. Keep the strings stable; sheets store them. */
+  static readonly TRANSACTION_TYPES = [
+    'Payment',
+    'Rent charge',
+    'Interest',
+    'Fee',
+    'Adjustment',
+    'Refund',
+    'Disbursement',
+    'Charge',
+  ] as const;
+
+  // Prefix: JAS - Lease Lib - BalanceSheet
+  private static readonly STORAGE_PROPERTIES = {
+    LAST_PROCESSED_DAYS: 'jas_ll_bs_lpd',
+  };
+
+  /** How long addPayment() waits for another execution to finish adding. */
+  private static readonly LOCK_TIMEOUT_MS = 30 * 1000;
+
   /** Returns the balance in the topmost cell. */
   static getBalance(): number {
     const sheet = BalanceSheet.getSheet();
@@ -17,6 +58,20 @@ export default class BalanceSheet {
         .number();
   }
 
+  /**
+   * Returns the balance at the end of `date`. Computed from the current balance
+   * by undoing every ledger transaction dated after it.
+   */
+  static getBalanceOnDate(
+      date: Date, ledger = BalanceSheet.readLedger(),
+      currentBalance = BalanceSheet.getBalance()): number {
+    const dayStart = Util.getDayStart(date);
+    return ledger.filter(entry => Util.getDayStart(entry.date) > dayStart)
+        .reduce(
+            (balance, entry) => balance + (Number(entry.transaction) || 0),
+            currentBalance);
+  }
+
   /**
    * Validates that the active sheet has the required row/column structure and
    * contents. Throws on validation failure.
@@ -42,60 +97,260 @@ export default class BalanceSheet {
       throw new Error(
           'Expected 1st row in balance sheet to be one merged range.');
     }
+
+    // Assert every row has a valid transaction type.
+    const typeColumn =
+        BalanceSheet.findColumnOptional(BalanceSheet.TYPE_COLUMN_NAME, sheet);
+    if (typeColumn === null) {
+      throw new Error(`Expected a '${
+          BalanceSheet.TYPE_COLUMN_NAME}' column in Balance sheet.`);
+    }
+    const firstDataRow = sheet.getFrozenRows() + 1;
+    const numRows = sheet.getLastRow() - firstDataRow + 1;
+    const types =
+        sheet.getRange(firstDataRow, typeColumn, numRows, 1).getValues();
+    for (const [type] of types) {
+      if (!BalanceSheet.isTransactionType(type)) {
+        throw new Error(
+            `Invalid transaction type in Balance sheet: '${type}'.`);
+      }
+    }
   }
 
   /**
-   * Adds a rent due or interest transaction if today is the day. If not, still
-   * updates the status cell.
+   * Posts every scheduled transaction (rent due, late fees, interest, recurring
+   * charges, items on the Scheduled sheet) from the day after the last
+   * processed date through today. Posted items are checked off on the
+   * Scheduled sheet. Charges that the ledger already has are skipped, so it is
+   * safe to run this more than once a day. If nothing is posted, still updates
+   * the status cell. Also emails rent reminders and notices of upcoming rent
+   * increases, and refreshes the Forecast sheet and the Amortization sheet of
+   * fixed-term loans.
    */
   static dailyUpdate() {
-    const currentDayOfMonth = BalanceSheet.getCurrentDayOfMonth();
     const config = Config.get();
-    const date = Util.convertTimeZone(new Date());
-    Logger.log(`Date for daily update: ${date}`);
+    const today = BalanceSheet.getToday();
+    Logger.log(`Date for daily update: ${today}`);
 
-    if (config.rentConfig?.dueDayOfMonth === currentDayOfMonth) {
-      BalanceSheet.insertRow({
-        date,
-        description: 'Rent due',
-        transaction: -config.rentConfig.monthlyAmount,
-      });
-      Logger.log(`Added 'Rent Due' transaction!`);
-    } else if (
-        config.loanConfig?.interestDayOfMonth === currentDayOfMonth &&
-        config.loanConfig.interestRate > 0) {
-      BalanceSheet.insertRow({
-        date,
-        description: 'Monthly interest',
-        transaction: 'interest',
-      });
-      Logger.log(`Added 'Monthly Interest' transaction!`);
-    } else {
-      BalanceSheet.updateStatusCell();
+    BalanceSheet.migrate();
+
+    const lastProcessedDay = BalanceSheet.readLastProcessedDay();
+    let day = lastProcessedDay === null ?
+        new Date(Util.getDayStart(today)) :
+        Util.addDays(new Date(lastProcessedDay), 1);
+
+    const ledger = BalanceSheet.readLedger();
+    const scheduledItems = Scheduled.read();
+    let insertedCount = 0;
+
+    for (; day.getTime() <= today.getTime(); day = Util.addDays(day, 1)) {
+      for (const balanceRow of BalanceSheet.getScheduledRows(
+               config, day, ledger)) {
+        if (BalanceSheet.postScheduledRow(balanceRow, ledger)) insertedCount++;
+      }
+      // Items that the ledger already has are not checked off.
+      const postedItems: ScheduledItem[] = [];
+      for (const item of Scheduled.getDueItems(scheduledItems, day)) {
+        if (BalanceSheet.postScheduledRow(Scheduled.getRow(item), ledger)) {
+          postedItems.push(item);
+        }
+      }
+      insertedCount += postedItems.length;
+      Scheduled.markPosted(postedItems);
+
+      // Before sending notices and reminders, so that a failed run doesn't
+      // send them again.
+      BalanceSheet.writeLastProcessedDay(day.getTime());
+
+      // A missed notice is still sent late, but not once the increase started.
+      const rentIncrease =
+          config.rentConfig && Rent.getIncreaseToNotify(config.rentConfig, day);
+      if (rentIncrease &&
+          Util.getDayStart(rentIncrease.date) > Util.getDayStart(today)) {
+        EmailSender.sendRentIncreaseNotice(rentIncrease);
+        Logger.log(`Sent notice of rent increase on ${rentIncrease.date}.`);
+      }
+
+      // Missed days are caught up on, but a reminder for rent that is already
+      // due would only be stale.
+      const reminder =
+          config.rentConfig && Rent.getReminder(config.rentConfig, day);
+      if (reminder &&
+          Util.getDayStart(reminder.date) > Util.getDayStart(today)) {
+        EmailSender.sendRentReminder(reminder);
+        Logger.log(`Sent reminder of rent due on ${reminder.date}.`);
+      }
+    }
+
+    if (config.loanConfig?.term) {
+      Amortization.updateSheet(config.loanConfig, ledger, today);
+    }
+    Forecast.updateSheet(
+        config, BalanceSheet.getBalance(), scheduledItems, today);
+
+    // insertRow() already updates the status cell.
+    if (!insertedCount) BalanceSheet.updateStatusCell();
+  }
+
+  /**
+   * Inserts `balanceRow` and adds it to `ledger`, unless the ledger already
+   * has it.
+   * @returns Whether the row was inserted.
+   */
+  private static postScheduledRow(balanceRow: BalanceRow, ledger: BalanceRow[]):
+      boolean {
+    if (ledger.some(
+            entry => BalanceSheet.isSameScheduledRow(entry, balanceRow))) {
+      Logger.log(`Skipping '${balanceRow.description}' on ${
+          balanceRow.date}. It is already in the ledger.`);
+      return false;
+    }
+
+    const transaction = BalanceSheet.insertRow(balanceRow);
+    // Interest formulas are only known once the sheet evaluates them.
+    ledger.push(
+        typeof balanceRow.transaction === 'number' ?
+            balanceRow :
+            {...balanceRow, transaction});
+    Logger.log(`Added '${balanceRow.description}' transaction!`);
+    return true;
+  }
+
+  /**
+   * Returns the transactions that are scheduled to be posted on `date`, other
+   * than the items of the Scheduled sheet.
+   * @param ledger The rows already in the sheet, used for balance-dependent
+   *     charges like late fees.
+   */
+  private static getScheduledRows(
+      config: ConfigParams, date: Date, ledger: BalanceRow[]): BalanceRow[] {
+    const rows: BalanceRow[] = [];
+
+    if (config.rentConfig) {
+      const rentRow = Rent.getRow(config.rentConfig, date);
+      if (rentRow) rows.push(rentRow);
+    }
+    if (config.rentConfig?.lateFee) {
+      const lateFeeRow = LateFee.getRow(
+          config.rentConfig, date,
+          BalanceSheet.getBalanceOnDate(Util.addDays(date, -1), ledger),
+          ledger);
+      if (lateFeeRow) rows.push(lateFeeRow);
+    }
+    const interestSchedule =
+        config.loanConfig && Interest.getSchedule(config.loanConfig);
+    if (interestSchedule && Schedule.isDueOn(interestSchedule, date)) {
+      const interestRow =
+          BalanceSheet.getInterestRow(config.loanConfig, date, ledger);
+      if (interestRow) rows.push(interestRow);
+    }
+    rows.push(...Charges.getRows(config.charges ?? [], date));
+
+    return rows;
+  }
+
+  /**
+   * Returns the interest to post on `date`, or null if the rate for the period
+   * is 0. Monthly flat interest is a formula on the previous balance, so it is
+   * left for insertRow() to write.
+   */
+  private static getInterestRow(
+      loanConfig: LoanConfig, date: Date, ledger: BalanceRow[]): BalanceRow
+      |null {
+    const row = {date, description: 'Monthly interest', type: 'Interest'} as
+        const;
+    if (loanConfig.interestMethod === 'daily accrual') {
+      const accrual = BalanceSheet.getDailyAccrual(
+          day => Interest.getRate(loanConfig, day), date, ledger);
+      if (!accrual) return null;
+      return {...row, transaction: -accrual.amount, note: accrual.note};
+    }
+    if (!Interest.getAnnualRateForPeriod(loanConfig, date)) return null;
+    return {...row, transaction: 'interest'};
+  }
+
+  /** See Interest.getDailyAccrual. Reads the current balance only once. */
+  private static getDailyAccrual(
+      rateOnDate: (date: Date) => number, date: Date, ledger: BalanceRow[]) {
+    const currentBalance = BalanceSheet.getBalance();
+    return Interest.getDailyAccrual(
+        rateOnDate, date, ledger,
+        day => BalanceSheet.getBalanceOnDate(day, ledger, currentBalance));
+  }
+
+  /**
+   * Whether a ledger entry is the posting of a scheduled row. Rent and interest
+   * are matched on type alone, since there is only one of each per day and
+   * their descriptions may have been edited by hand. Rows added through the
+   * transaction form are extra, so they never match.
+   */
+  private static isSameScheduledRow(entry: BalanceRow, scheduled: BalanceRow):
+      boolean {
+    if (Util.getDayStart(entry.date) !== Util.getDayStart(scheduled.date) ||
+        entry.type !== scheduled.type ||
+        entry.reference === BalanceSheet.MANUAL_REFERENCE) {
+      return false;
     }
+    return scheduled.type === 'Rent charge' || scheduled.type === 'Interest' ||
+        entry.description === scheduled.description;
   }
 
   /**
    * Adds a payment to the balance sheet. The default amount is the full rent
    * amount.
+   * @param reference Identifies the source of the payment, like a Gmail message
+   *     id, or several ids of the same payment. They are stored in a hidden
+   *     column, one per line, and a payment with any of them already in the
+   *     sheet is not added again.
+   * @param note Shown on the transaction cell, like the payer's memo.
+   * @returns Whether the payment was added.
    */
-  static addPayment(amount: number, date: Date) {
-    BalanceSheet.insertRow({
-      date,
-      description: Config.get().rentConfig ? 'Rent payment' : 'Loan payment',
-      transaction: amount,
-    });
+  static addPayment(
+      amount: number, date: Date, reference?: string|string[],
+      note?: string): boolean {
+    const references =
+        (Array.isArray(reference) ? reference : [reference]).filter(r => !!r);
+
+    // So that overlapping email checks, like a trigger and a run from the
+    // menu, can't both find a reference missing and add the payment twice.
+    const lock = LockService.getScriptLock();
+    lock.waitLock(BalanceSheet.LOCK_TIMEOUT_MS);
+    try {
+      const existingReference =
+          references.find(r => BalanceSheet.hasReference(r));
+      if (existingReference) {
+        Logger.log(`Payment with reference '${
+            existingReference}' is already in the balance sheet.`);
+        return false;
+      }
+
+      BalanceSheet.insertRow({
+        date,
+        description: Config.get().rentConfig ? 'Rent payment' : 'Loan payment',
+        transaction: amount,
+        type: 'Payment',
+        reference: references.join('\n') || undefined,
+        note,
+      });
+      return true;
+    } finally {
+      lock.releaseLock();
+    }
   }
 
-  /** Inserts a new transaction at the top of the Balance sheet. */
-  static insertRow(balanceRow: BalanceRow) {
+  /**
+   * Inserts a new transaction into the Balance sheet at its chronological
+   * position. Rows are ordered newest first, so the new row goes above every
+   * row that is older than it. For rows on the same date, see
+   * `getSameDateRank()`. Daily accrual interest posted after the new row is
+   * recomputed, since the row changes the balance it accrued on.
+   * @returns The transaction as written, with interest formulas evaluated.
+   */
+  static insertRow(balanceRow: BalanceRow): number {
+    BalanceSheet.migrate();
     const sheet = BalanceSheet.getSheet();
-    const headerRow = sheet.getFrozenRows();
-    // TODO: Insert the row at the correct date location. This may need a custom
-    // row sort. When the date is a tie, for loan configs, a payment should come
-    // before the interest application to give the loaner the interest benefit.
-    sheet.insertRowBefore(headerRow + 1);
-    const newRow = headerRow + 1;
+    const newRow = BalanceSheet.findRowForInsertion(balanceRow, sheet);
+    sheet.insertRowBefore(newRow);
     const balanceColumn = SSLib.JasSpreadsheet.findColumn('balance', sheet);
     const previousBalanceCellA1 =
         sheet.getRange(newRow + 1, balanceColumn).getA1Notation();
@@ -108,38 +363,417 @@ export default class BalanceSheet {
     setCell('date', balanceRow.date);
     setCell('description', balanceRow.description);
 
+    const typeCell = sheet.getRange(
+        newRow,
+        BalanceSheet.findColumnOptional(BalanceSheet.TYPE_COLUMN_NAME, sheet));
+    typeCell.setValue(balanceRow.type);
+    typeCell.setDataValidation(BalanceSheet.createTypeValidation());
+
+    if (balanceRow.reference) {
+      const referenceColumn = BalanceSheet.getOrInsertColumn(
+          BalanceSheet.REFERENCE_COLUMN_NAME, sheet, {hidden: true});
+      sheet.getRange(newRow, referenceColumn).setValue(balanceRow.reference);
+    }
+
+    const {loanConfig} = Config.get();
     if (typeof balanceRow.transaction === 'number') {
       setCell('transaction', balanceRow.transaction);
     } else {
       const prevBal = previousBalanceCellA1;
-      if (!Config.get().loanConfig) {
+      if (!loanConfig) {
         throw new Error('Cannot add interest for non-loan configs.');
       }
-      const interestRate = Config.get().loanConfig.interestRate;
+      // The rate is written into the formula, so that later rate changes
+      // don't change past interest.
+      const interestRate =
+          Interest.getAnnualRateForPeriod(loanConfig, balanceRow.date);
+      const periods = Interest.getPeriodsPerYear(loanConfig);
       setCell(
           'transaction',
-          `= if (${prevBal} >= 0, - ${prevBal} * ${interestRate} / 12, 0)`);
+          `= if (${prevBal} >= 0, - ${prevBal} * ${interestRate} / ${
+              periods}, 0)`);
     }
 
     const transactionCell = sheet.getRange(
         newRow, SSLib.JasSpreadsheet.findColumn('transaction', sheet));
+    if (balanceRow.note) transactionCell.setNote(balanceRow.note);
     setCell(
         'balance',
         `= ${previousBalanceCellA1} - ${transactionCell.getA1Notation()}`);
 
+    BalanceSheet.rewireRowAboveInsertion(newRow, sheet);
+
+    if (loanConfig?.interestMethod === 'daily accrual') {
+      BalanceSheet.updateDailyAccruals(loanConfig, balanceRow.date, sheet);
+    }
+    if (loanConfig) BalanceSheet.updatePaymentSplits(sheet);
+
     BalanceSheet.updateStatusCell();
+
+    const transaction = transactionCell.getValue();
+    return typeof transaction === 'number' ? transaction : NaN;
+  }
+
+  /**
+   * Recomputes the daily accrual interest posted after `date`, oldest first,
+   * and rewrites the amounts and notes that changed. Each accrual depends on
+   * the ones before it, through the balance.
+   */
+  private static updateDailyAccruals(
+      loanConfig: LoanConfig, date: Date, sheet: Sheet) {
+    const ledgerRows = BalanceSheet.readLedgerRows();
+    const ledger = ledgerRows.map(({entry}) => entry);
+    const transactionColumn =
+        SSLib.JasSpreadsheet.findColumn('transaction', sheet);
+    const dayStart = Util.getDayStart(date);
+    let currentBalance = BalanceSheet.getBalance();
+
+    for (let i = ledgerRows.length - 1; i >= 0; i--) {
+      const {entry, row} = ledgerRows[i];
+      if (entry.type !== 'Interest' ||
+          Util.getDayStart(entry.date) <= dayStart) {
+        continue;
+      }
+      const accrual = Interest.getDailyAccrual(
+          day => Interest.getRate(loanConfig, day), entry.date, ledger,
+          day => BalanceSheet.getBalanceOnDate(day, ledger, currentBalance));
+      const transaction = accrual ? -accrual.amount : 0;
+      if (transaction === entry.transaction) continue;
+
+      const cell = sheet.getRange(row, transactionColumn);
+      cell.setValue(transaction);
+      cell.setNote(accrual?.note ?? '');
+      // Every balance from this row up changes by the same amount.
+      currentBalance -= transaction - (Number(entry.transaction) || 0);
+      entry.transaction = transaction;
+    }
+  }
+
+  /**
+   * Rewrites the principal and interest columns of every payment. A new row can
+   * change the split of every payment after it, so the columns are recomputed
+   * as a whole.
+   */
+  private static updatePaymentSplits(sheet: Sheet) {
+    const principalColumn = BalanceSheet.getOrInsertColumn(
+        BalanceSheet.PRINCIPAL_COLUMN_NAME, sheet);
+    const interestColumn = BalanceSheet.getOrInsertColumn(
+        BalanceSheet.INTEREST_COLUMN_NAME, sheet);
+
+    const firstDataRow = sheet.getFrozenRows() + 1;
+    const numRows = sheet.getLastRow() - firstDataRow + 1;
+    if (numRows < 1) return;
+
+    const readColumn = (column: number): unknown[] =>
+        sheet.getRange(firstDataRow, column, numRows, 1)
+            .getValues()
+            .map(row => row[0]);
+    const transactions =
+        readColumn(SSLib.JasSpreadsheet.findColumn('transaction', sheet));
+    const types = readColumn(
+        BalanceSheet.findColumnOptional(BalanceSheet.TYPE_COLUMN_NAME, sheet));
+    const splits = Allocation.splitPayments(transactions.map(
+        (transaction, i) => ({
+          transaction: typeof transaction === 'number' ? transaction : NaN,
+          type: types[i] as TransactionType,
+        })));
+
+    sheet.getRange(firstDataRow, principalColumn, numRows, 1)
+        .setValues(splits.map(split => [split ? split.principal : '']));
+    sheet.getRange(firstDataRow, interestColumn, numRows, 1)
+        .setValues(splits.map(split => [split ? split.interest : '']));
+  }
+
+  /**
+   * Returns the row before which `balanceRow` should be inserted. The bottom
+   * data row holds the starting balance, so nothing is ever inserted below it.
+   */
+  private static findRowForInsertion(balanceRow: BalanceRow, sheet: Sheet):
+      number {
+    const firstDataRow = sheet.getFrozenRows() + 1;
+    const lastRow = sheet.getLastRow();
+    if (lastRow <= firstDataRow) return firstDataRow;
+
+    const numRows = lastRow - firstDataRow;
+    const dateColumn = SSLib.JasSpreadsheet.findColumn('date', sheet);
+    const typeColumn =
+        BalanceSheet.findColumnOptional(BalanceSheet.TYPE_COLUMN_NAME, sheet);
+    const dates =
+        sheet.getRange(firstDataRow, dateColumn, numRows, 1).getValues();
+    const types =
+        sheet.getRange(firstDataRow, typeColumn, numRows, 1).getValues();
+
+    const newDay = Util.getDayStart(balanceRow.date);
+    const newRank = BalanceSheet.getSameDateRank(balanceRow.type);
+
+    for (let i = 0; i < numRows; i++) {
+      const date = dates[i][0];
+      // Rows without a valid date are treated as older than every other row.
+      const day = date instanceof Date ? Util.getDayStart(date) : -Infinity;
+      if (day < newDay) return firstDataRow + i;
+      if (day === newDay) {
+        const rank = BalanceSheet.getSameDateRank(types[i][0]);
+        if (rank <= newRank) return firstDataRow + i;
+      }
+    }
+
+    return lastRow;
+  }
+
+  /**
+   * Rows on the same date are ordered by rank, lowest rank first. Payments and
+   * other transactions come before interest, so a payment made on the interest
+   * day reduces the balance that the interest is computed from.
+   */
+  private static getSameDateRank(type: TransactionType): number {
+    return type === 'Interest' ? 1 : 0;
+  }
+
+  /**
+   * After inserting `newRow`, the formulas in the row above it still point to
+   * the row that was pushed down. Repoints them to the new row so that the
+   * running balance chain stays intact.
+   */
+  private static rewireRowAboveInsertion(newRow: number, sheet: Sheet) {
+    const rowAbove = newRow - 1;
+    if (rowAbove <= sheet.getFrozenRows()) return;
+
+    const balanceColumn = SSLib.JasSpreadsheet.findColumn('balance', sheet);
+    const trxColumn = SSLib.JasSpreadsheet.findColumn('transaction', sheet);
+    const staleA1 = sheet.getRange(newRow + 1, balanceColumn).getA1Notation();
+    const newA1 = sheet.getRange(newRow, balanceColumn).getA1Notation();
+
+    for (const column of [trxColumn, balanceColumn]) {
+      const cell = sheet.getRange(rowAbove, column);
+      const formula = cell.getFormula();
+      if (!formula) continue;
+      cell.setFormula(
+          formula.replace(new RegExp(`\\b${staleA1}\\b`, 'g'), newA1));
+    }
+  }
+
+  /**
+   * Brings a Balance sheet from before transaction types up to date. Adds the
+   * type column if it is missing, and fills in the type of every row that
+   * doesn't have one by inferring it from the description. Does nothing if
+   * every row already has a type, which only takes reading the type column.
+   * Runs before anything that needs the types, because rows typed into the
+   * sheet by hand may not have one.
+   */
+  static migrate() {
+    const sheet = BalanceSheet.getSheet();
+    const typeColumn =
+        BalanceSheet.getOrInsertColumn(BalanceSheet.TYPE_COLUMN_NAME, sheet);
+    const firstDataRow = sheet.getFrozenRows() + 1;
+    const numRows = sheet.getLastRow() - firstDataRow + 1;
+    if (numRows < 1) return;
+
+    const typeRange = sheet.getRange(firstDataRow, typeColumn, numRows, 1);
+    const types = typeRange.getValues();
+    if (types.every(([type]) => type !== '')) return;
+
+    const readColumn = (columnName: string): unknown[][] =>
+        sheet
+            .getRange(
+                firstDataRow,
+                SSLib.JasSpreadsheet.findColumn(columnName, sheet), numRows, 1)
+            .getValues();
+    const descriptions = readColumn('description');
+    const transactions = readColumn('transaction');
+
+    typeRange.setValues(types.map(
+        ([type], i) =>
+            [type ||
+             BalanceSheet.inferTransactionType(
+                 String(descriptions[i][0]), Number(transactions[i][0]))]));
+    typeRange.setDataValidation(BalanceSheet.createTypeValidation());
+    Logger.log('Inferred missing transaction types in Balance sheet.');
+  }
+
+  /**
+   * Guesses the type of a row that was added before the type column existed,
+   * mostly from the descriptions that this library has used.
+   */
+  static inferTransactionType(description: string, transaction: number):
+      TransactionType {
+    description = description.toLowerCase();
+    if (description.includes('interest')) return 'Interest';
+    if (description.includes('refund')) return 'Refund';
+    if (description.includes('fee')) return 'Fee';
+    if (description.includes('disburse')) return 'Disbursement';
+    if (description.includes('payment') || description.includes('paid')) {
+      return transaction < 0 ? 'Adjustment' : 'Payment';
+    }
+    if (description.includes('rent')) return 'Rent charge';
+    return 'Adjustment';
+  }
+
+  static isTransactionType(s: unknown): s is TransactionType {
+    return BalanceSheet.TRANSACTION_TYPES.some(type => type === s);
+  }
+
+  private static createTypeValidation():
+      GoogleAppsScript.Spreadsheet.DataValidation {
+    return SpreadsheetApp.newDataValidation()
+        .requireValueInList([...BalanceSheet.TRANSACTION_TYPES], true)
+        .setAllowInvalid(false)
+        .build();
+  }
+
+  private static hasReference(reference: string): boolean {
+    const sheet = BalanceSheet.getSheet();
+    const referenceColumn = BalanceSheet.findColumnOptional(
+        BalanceSheet.REFERENCE_COLUMN_NAME, sheet);
+    const firstDataRow = sheet.getFrozenRows() + 1;
+    const numRows = sheet.getLastRow() - firstDataRow + 1;
+    if (referenceColumn === null || numRows < 1) return false;
+
+    return sheet.getRange(firstDataRow, referenceColumn, numRows, 1)
+        .getValues()
+        .some(row => String(row[0]).split('\n').includes(reference));
+  }
+
+  /**
+   * Returns the index of the column whose header is exactly `columnName`
+   * (ignoring case), or null. Unlike JasSpreadsheet.findColumn, doesn't throw
+   * for missing columns, so it works for columns that older sheets don't have.
+   */
+  private static findColumnOptional(columnName: string, sheet: Sheet): number
+      |null {
+    const headerRow = sheet.getFrozenRows();
+    const headers =
+        sheet.getRange(headerRow, 1, 1, sheet.getLastColumn()).getValues()[0];
+    const index = headers.findIndex(
+        h => String(h).trim().toLowerCase() === columnName.toLowerCase());
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Returns the column with the given header, first appending it after the last
+   * column if the sheet doesn't have it yet.
+   */
+  private static getOrInsertColumn(
+      columnName: string, sheet: Sheet, {hidden = false} = {}): number {
+    const existingColumn = BalanceSheet.findColumnOptional(columnName, sheet);
+    if (existingColumn !== null) return existingColumn;
+
+    const lastColumn = sheet.getLastColumn();
+    const column = lastColumn + 1;
+    sheet.insertColumnAfter(lastColumn);
+    sheet.getRange(sheet.getFrozenRows(), column).setValue(columnName);
+    if (hidden) sheet.hideColumns(column);
+
+    // The status cell must stay merged across the full width of the sheet.
+    sheet.getRange(1, 1, 1, column).breakApart().merge();
+
+    Logger.log(`Added '${columnName}' column to the Balance sheet.`);
+    return column;
   }
 
   /** Separate method for easier testing. */
-  static getCurrentDayOfMonth(): number {
-    return new Date().getDate();
+  static getToday(): Date {
+    return Util.convertTimeZone(new Date());
   }
 
   /**
-   * Updates the status cell with the current balance, the last payment, and the
-   * next scheduled payment.
+   * Returns every dated data row, top down, in one read per column. Transaction
+   * cells that do not hold a number are returned as NaN.
+   */
+  static readLedger(): BalanceRow[] {
+    return BalanceSheet.readLedgerRows().map(({entry}) => entry);
+  }
+
+  /** Like readLedger(), with the 1-based sheet row of every entry. */
+  private static readLedgerRows(): Array<{entry: BalanceRow, row: number}> {
+    const sheet = BalanceSheet.getSheet();
+    const firstDataRow = sheet.getFrozenRows() + 1;
+    const numRows = sheet.getLastRow() - firstDataRow + 1;
+    if (numRows < 1) return [];
+
+    const readColumn = (columnName: string): unknown[] =>
+        sheet
+            .getRange(
+                firstDataRow,
+                SSLib.JasSpreadsheet.findColumn(columnName, sheet), numRows, 1)
+            .getValues()
+            .map(row => row[0]);
+
+    const dates = readColumn('date');
+    const descriptions = readColumn('description');
+    const transactions = readColumn('transaction');
+    const types = readColumn(BalanceSheet.TYPE_COLUMN_NAME);
+    const referenceColumn = BalanceSheet.findColumnOptional(
+        BalanceSheet.REFERENCE_COLUMN_NAME, sheet);
+    const references = referenceColumn === null ?
+        [] :
+        sheet.getRange(firstDataRow, referenceColumn, numRows, 1)
+            .getValues()
+            .map(row => row[0]);
+
+    const ledgerRows: Array<{entry: BalanceRow, row: number}> = [];
+    for (let i = 0; i < numRows; i++) {
+      const date = dates[i];
+      if (!(date instanceof Date)) continue;
+      const entry: BalanceRow = {
+        date,
+        description: String(descriptions[i]),
+        transaction: typeof transactions[i] === 'number' ?
+            transactions[i] as number :
+            NaN,
+        type: types[i] as TransactionType,
+      };
+      if (references[i]) entry.reference = String(references[i]);
+      ledgerRows.push({entry, row: firstDataRow + i});
+    }
+    return ledgerRows;
+  }
+
+  /**
+   * Reads the start of the last day processed by dailyUpdate() for the current
+   * spreadsheet, or null if it has never run.
+   */
+  private static readLastProcessedDay(): number|null {
+    const days = BalanceSheet.readLastProcessedDays();
+    const day = days[_JasLibContext.spreadsheetId];
+    return typeof day === 'number' ? day : null;
+  }
+
+  private static writeLastProcessedDay(dayStart: number) {
+    const days = BalanceSheet.readLastProcessedDays();
+    days[_JasLibContext.spreadsheetId] = dayStart;
+    PropertiesService.getScriptProperties().setProperty(
+        BalanceSheet.STORAGE_PROPERTIES.LAST_PROCESSED_DAYS,
+        JSON.stringify(days));
+  }
+
+  /** Map from spreadsheet id to the last day processed by dailyUpdate(). */
+  private static readLastProcessedDays(): Record<string, number> {
+    const propertyValue = PropertiesService.getScriptProperties().getProperty(
+        BalanceSheet.STORAGE_PROPERTIES.LAST_PROCESSED_DAYS);
+    if (!propertyValue) return {};
+
+    try {
+      const days = JSON.parse(propertyValue);
+      if (typeof days === 'object' && !Array.isArray(days) &&
+          Object.keys(days).every(id => typeof days[id] === 'number')) {
+        return days;
+      } else {
+        throw new Error(`Stored last processed days have incorrect format: ${
+            propertyValue}`);
+      }
+    } catch (e) {
+      Logger.log('Failure to parse stored last processed days.');
+      throw e;
+    }
+  }
+
+  /**
+   * Updates the status cell with the current balance, the last payment, the
+   * next scheduled payment, the end of the lease, and any late fee that will
+   * apply.
    */
   static updateStatusCell() {
+    BalanceSheet.migrate();
     BalanceSheet.validateActiveSheet();
     const config = Config.get();
 
@@ -174,19 +808,112 @@ export default class BalanceSheet {
       statusText += `, ${Util.dateString(lastPayment.date)}`;
     }
 
+    // Principal and interest paid so far, for loans.
+    if (config.loanConfig) {
+      const ledger = BalanceSheet.readLedger();
+      if (ledger.some(entry => entry.type === 'Payment')) {
+        const totals = Allocation.getTotals(ledger);
+        statusText += `\nPaid so far: `;
+        addFormatted(Util.formatMoney(totals.principal), {isBold: true});
+        statusText += ` principal, `;
+        addFormatted(Util.formatMoney(totals.interest), {isBold: true});
+        statusText += ` interest`;
+      }
+    }
+
     // Upcoming transaction line.
+    let hasUpcoming = false;
     if (config.rentConfig) {
-      const {monthlyAmount, dueDayOfMonth} = config.rentConfig;
-      statusText += `\nUpcoming: `;
-      addFormatted(Util.formatMoney(monthlyAmount), {isBold: true});
-      statusText += ` due ${Util.getNextDayOfMonthString(dueDayOfMonth)}`;
-    } else if (config.loanConfig!.interestRate) {
-      const {interestRate, interestDayOfMonth} = config.loanConfig;
+      const upcomingRent =
+          Rent.getUpcoming(config.rentConfig, BalanceSheet.getToday());
+      if (upcomingRent) {
+        statusText += `\nUpcoming: `;
+        addFormatted(Util.formatMoney(upcomingRent.amount), {isBold: true});
+        statusText += ` due ${Util.dateString(upcomingRent.date)}`;
+        hasUpcoming = true;
+      }
+    } else if (Interest.getRate(config.loanConfig!, BalanceSheet.getToday())) {
       statusText += `\nUpcoming: `;
-      const interestAmount = (interestRate / 12) * balance;
+      const interestAmount =
+          BalanceSheet.getUpcomingInterest(config.loanConfig, balance);
       addFormatted(Util.formatMoney(interestAmount), {isBold: true});
       statusText += ` interest to be applied ${
-          Util.getNextDayOfMonthString(interestDayOfMonth)}`;
+          Util.dateString(
+              BalanceSheet.getNextInterestDate(config.loanConfig))}`;
+      hasUpcoming = true;
+    }
+    for (const charge of Charges.getUpcoming(
+             config.charges ?? [], BalanceSheet.getToday())) {
+      statusText += hasUpcoming ? ', ' : '\nUpcoming: ';
+      addFormatted(Util.formatMoney(charge.amount), {isBold: true});
+      statusText += ` ${charge.name} due ${Util.dateString(charge.date)}`;
+      hasUpcoming = true;
+    }
+
+    // Payoff line, for loans with a default payment.
+    if (config.loanConfig?.defaultPayment && balance > 0) {
+      const {loanConfig} = config;
+      const payment = loanConfig.defaultPayment;
+      const frequency = Payoff.getFrequency(loanConfig);
+      const projection =
+          Payoff.project(loanConfig, balance, payment, BalanceSheet.getToday());
+      statusText += `\nWith `;
+      addFormatted(Util.formatMoney(payment), {isBold: true});
+      statusText += ` ${frequency} payments, `;
+      if (projection === 'interest not covered') {
+        addFormatted(
+            `never paid off`, {isBold: true, color: Colors.RED_BALANCE});
+        statusText += `: payments don't cover the ${
+            Util.formatMoney(Payoff.getPeriodInterest(
+                loanConfig, balance,
+                BalanceSheet.getToday()))} ${frequency} interest`;
+      } else if (projection === 'too many payments') {
+        addFormatted(`not paid off`, {isBold: true, color: Colors.RED_BALANCE});
+        statusText += ` within ${Payoff.MAX_PAYMENTS} payments`;
+      } else {
+        statusText +=
+            `paid off ${Util.dateString(projection.payoffDate)} with `;
+        addFormatted(
+            Util.formatMoney(projection.totalInterest), {isBold: true});
+        statusText += ` more interest`;
+      }
+    }
+
+    // Next one-time item from the Scheduled sheet.
+    const nextScheduled =
+        Scheduled.getNext(Scheduled.read(), BalanceSheet.getToday());
+    if (nextScheduled) {
+      const {amount, description, date} = nextScheduled;
+      statusText += `\nNext scheduled: `;
+      addFormatted(Util.formatMoney(Math.abs(amount)), {isBold: true});
+      statusText += ` ${amount > 0 ? 'credit' : 'charge'} for ${description} ${
+          Util.dateString(date)}`;
+    }
+
+    // Lease end line.
+    if (config.rentConfig?.leaseEndDate) {
+      const today = BalanceSheet.getToday();
+      const {leaseEndDate} = config.rentConfig;
+      const hasEnded = Util.getDayStart(leaseEndDate) < Util.getDayStart(today);
+      const finalBalance = hasEnded ?
+          balance :
+          balance + Rent.getRemainingRent(config.rentConfig, today);
+      statusText += `\nLease ${hasEnded ? 'ended' : 'ends'} ${
+          Util.dateString(leaseEndDate)}, final balance `;
+      addFormatted(Util.formatMoney(finalBalance), {isBold: true});
+      if (!hasEnded) statusText += ` if no more payments are made`;
+    }
+
+    // Late fee line, while there is unpaid rent and the lease hasn't ended.
+    const feeDate = config.rentConfig?.lateFee && balance > 0 &&
+        LateFee.getNextFeeDate(config.rentConfig, BalanceSheet.getToday());
+    if (feeDate) {
+      const {lateFee} = config.rentConfig;
+      statusText += `\nLate fee: `;
+      addFormatted(
+          Util.formatMoney(LateFee.getAmount(lateFee, balance)),
+          {isBold: true, color: Colors.RED_BALANCE});
+      statusText += ` applies ${Util.dateString(feeDate)} if unpaid`;
     }
 
     const rtBuilder = SpreadsheetApp.newRichTextValue().setText(statusText);
@@ -212,32 +939,41 @@ export default class BalanceSheet {
     statusCell.setVerticalAlignment('middle');
   }
 
-  private static findLastPayment(): {amount: number; date: Date}|null {
-    const sheet = BalanceSheet.getSheet();
-    const firstDataRow = sheet.getFrozenRows() + 1;
-    const lastRow = sheet.getLastRow();
-    const trxColumn = SSLib.JasSpreadsheet.findColumn('transaction', sheet);
-    const dateColumn = SSLib.JasSpreadsheet.findColumn('date', sheet);
-    // TODO: Also check description. Probably make 'Rent payment' or
-    // 'Loan payment' a const in Config? But what if Adrienne or James changes
-    // the description manually in the sheet. Protect those ranges?
-
-    for (let row = firstDataRow; row <= lastRow; row++) {
-      const trxCell = sheet.getRange(row, trxColumn);
-      if (!trxCell.isBlank()) {
-        const amount = new SSLib.CellData(trxCell).number();
-        if (amount > 0) {
-          const date =
-              new SSLib.CellData(sheet.getRange(row, dateColumn)).date();
-          return {amount, date};
-        }
-      }
+  /**
+   * Estimates the next interest posting at the current rate. For daily
+   * accrual, the days after today are projected at today's balance.
+   */
+  private static getUpcomingInterest(loanConfig: LoanConfig, balance: number):
+      number {
+    const today = BalanceSheet.getToday();
+    const currentRate = Interest.getRate(loanConfig, today);
+    if (loanConfig.interestMethod !== 'daily accrual') {
+      return (currentRate / Interest.getPeriodsPerYear(loanConfig)) * balance;
     }
 
-    return null;
+    const accrual = BalanceSheet.getDailyAccrual(
+        day => day > today ? currentRate : Interest.getRate(loanConfig, day),
+        BalanceSheet.getNextInterestDate(loanConfig),
+        BalanceSheet.readLedger());
+    return accrual ? accrual.amount : 0;
+  }
+
+  private static getNextInterestDate(loanConfig: LoanConfig): Date {
+    return Schedule.getNextDate(
+        Interest.getSchedule(loanConfig), BalanceSheet.getToday());
   }
 
-  private static getSheet(): GoogleAppsScript.Spreadsheet.Sheet {
+  private static findLastPayment(): {amount: number; date: Date}|null {
+    const lastPayment =
+        BalanceSheet.readLedger().find(entry => entry.type === 'Payment');
+    if (!lastPayment || typeof lastPayment.transaction !== 'number' ||
+        isNaN(lastPayment.transaction)) {
+      return null;
+    }
+    return {amount: lastPayment.transaction, date: lastPayment.date};
+  }
+
+  private static getSheet(): Sheet {
     return SSLib.JasSpreadsheet.findSheet(
         BalanceSheet.SHEET_NAME, _JasLibContext.spreadsheetId);
   }
@@ -247,8 +983,15 @@ export interface BalanceRow {
   date: Date;
   description: string;
   transaction: number|'interest';
+  type: TransactionType;
+  /** See BalanceSheet.addPayment. */
+  reference?: string;
+  /** Shown as a note on the transaction cell, e.g. to explain a calculation. */
+  note?: string;
 }
 
+export type TransactionType = typeof BalanceSheet.TRANSACTION_TYPES[number];
+
 interface TextStyle {
   start: number;
   end: number;
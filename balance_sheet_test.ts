@@ -1,9 +1,12 @@
 import {JASLib} from 'jas_api';
 import {SSLib} from 'ss_api';
 
-import Util from './_util';
-import BalanceSheet, {BalanceRow} from './balance_sheet';
+import BalanceSheet, {BalanceRow, TransactionType} from './balance_sheet';
 import Config from './config';
+import EmailSender from './email_sender';
+import Forecast from './forecast';
+import LateFee from './late_fee';
+import Scheduled from './scheduled';
 import Tester from './testing/tester';
 
 type Range = GoogleAppsScript.Spreadsheet.Range;
@@ -90,9 +93,34 @@ export default class BalanceSheetTest implements JASLib.Test {
     ];
 
     t.describe('dailyUpdate', () => {
+      let ledger: BalanceRow[];
+      let today: Date;
+
       t.beforeAll(() => {
         t.spyOn(BalanceSheet, 'insertRow');
         t.spyOn(BalanceSheet, 'updateStatusCell');
+        t.spyOn(BalanceSheet, 'readLedger').and.callFake(() => ledger);
+        t.spyOn(BalanceSheet, 'getToday').and.callFake(() => today);
+        t.spyOn(BalanceSheet, 'migrate');
+        t.spyOn(Forecast, 'updateSheet');
+      });
+
+      t.beforeEach(() => {
+        ledger = [];
+        setToday(1);
+        const fakeProperties = new JASLib.FakeProperties();
+        t.spyOn(PropertiesService, 'getScriptProperties')
+            .and.callFake(() => fakeProperties);
+      });
+
+      const setToday = (dayOfMonth: number) => {
+        today = this.getDateInThisYear(6, dayOfMonth);
+      };
+
+      t.it('refreshes the Forecast sheet', () => {
+        t.setConfig(Config.DEFAULT);
+        BalanceSheet.dailyUpdate();
+        t.expect(Forecast.updateSheet).toHaveBeenCalledTimes(1);
       });
 
       t.it('updates status cell for 0-interest loans', () => {
@@ -129,9 +157,8 @@ export default class BalanceSheetTest implements JASLib.Test {
           t.describe(`for ${configType} ${dateString}`, () => {
             t.beforeEach(() => {
               t.setConfig(config);
-              t.spyOn(Date.prototype, 'getDate')
-                  .and.returnValue(
-                      configTransactionDayOfMonth + (isTransactionDay ? 0 : 1));
+              setToday(
+                  configTransactionDayOfMonth + (isTransactionDay ? 0 : 1));
             });
 
             const testString =
@@ -157,6 +184,368 @@ export default class BalanceSheetTest implements JASLib.Test {
           });
         }
       }
+
+      t.describe('when run more than once', () => {
+        t.beforeEach(() => t.setConfig(baseConfigSpecs[0].config));
+
+        t.it('posts a charge only once on the same day', () => {
+          setToday(configTransactionDayOfMonth);
+          BalanceSheet.dailyUpdate();
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).toHaveBeenCalledTimes(1);
+        });
+
+        t.it('catches up on missed days', () => {
+          setToday(configTransactionDayOfMonth - 2);
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).not.toHaveBeenCalled();
+
+          // The trigger does not run again until 3 days later.
+          setToday(configTransactionDayOfMonth + 1);
+          BalanceSheet.dailyUpdate();
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.date.getDate()).toBe(configTransactionDayOfMonth);
+            t.expect(row.description).toBe('Rent due');
+            return true;
+          });
+          t.expect(BalanceSheet.insertRow).toHaveBeenCalledTimes(1);
+        });
+
+        t.it('skips charges that are already in the ledger', () => {
+          setToday(configTransactionDayOfMonth);
+          ledger = [{
+            date: this.getDateInThisYear(6, configTransactionDayOfMonth),
+            description: 'Rent due',
+            transaction: -873,
+            type: 'Rent charge',
+          }];
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).not.toHaveBeenCalled();
+          t.expect(BalanceSheet.updateStatusCell).toHaveBeenCalled();
+        });
+
+        t.it('posts rent despite a manual rent charge on the same day', () => {
+          setToday(configTransactionDayOfMonth);
+          ledger = [{
+            date: this.getDateInThisYear(6, configTransactionDayOfMonth),
+            description: 'Rent charge',
+            transaction: -100,
+            type: 'Rent charge',
+            reference: BalanceSheet.MANUAL_REFERENCE,
+          }];
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).toHaveBeenCalledTimes(1);
+        });
+      });
+
+      t.describe('for loan config with daily accrual', () => {
+        t.beforeEach(() => {
+          t.setConfig(Config.getLoanConfigForTest(undefined, {
+            loanConfig: {
+              interestDayOfMonth: configTransactionDayOfMonth,
+              interestMethod: 'daily accrual',
+              interestRate: 0.0365,
+            },
+          }));
+          setToday(configTransactionDayOfMonth);
+        });
+
+        t.it('posts the accrued interest with its calculation', () => {
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(1000);
+          BalanceSheet.dailyUpdate();
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.type).toBe('Interest');
+            // 30 days in June at 0.01% per day.
+            t.expect(row.transaction).toBe(-3);
+            t.expect(row.note).toContain('30 days x $1,000.00');
+            return true;
+          });
+        });
+      });
+
+      t.describe('for loan config with a biweekly schedule', () => {
+        t.beforeEach(() => {
+          t.setConfig(Config.getLoanConfigForTest(undefined, {
+            loanConfig: {
+              interestDayOfMonth: undefined,
+              interestSchedule: {
+                frequency: 'biweekly',
+                anchorDate: this.getDateInThisYear(6, 3),
+              },
+            },
+          }));
+        });
+
+        t.it('posts interest every other week', () => {
+          setToday(17);
+          BalanceSheet.dailyUpdate();
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.type).toBe('Interest');
+            return true;
+          });
+        });
+
+        t.it('does not post interest in the weeks between', () => {
+          setToday(10);
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).not.toHaveBeenCalled();
+        });
+      });
+
+      t.describe('for rent config with reminders', () => {
+        let failToSend: boolean;
+
+        t.beforeEach(() => {
+          failToSend = false;
+          t.spyOn(EmailSender, 'sendRentReminder').and.callFake(() => {
+            if (failToSend) throw new Error('Failed to send reminder');
+          });
+          t.setConfig(Config.getRentConfigForTest(undefined, {
+            rentConfig: {dueDayOfMonth: 10, reminderDays: 3},
+          }));
+        });
+
+        t.it('sends a reminder ahead of the due date', () => {
+          setToday(7);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentReminder).toHaveBeenCalled();
+        });
+
+        t.it('does not send a reminder on other days', () => {
+          setToday(8);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentReminder).not.toHaveBeenCalled();
+        });
+
+        t.it('sends a missed reminder before the due date', () => {
+          setToday(6);
+          BalanceSheet.dailyUpdate();
+          setToday(9);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentReminder).toHaveBeenCalledTimes(1);
+        });
+
+        t.it('skips a missed reminder once the rent is due', () => {
+          setToday(6);
+          BalanceSheet.dailyUpdate();
+          setToday(11);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentReminder).not.toHaveBeenCalled();
+        });
+
+        t.it('does not send a reminder again after a failed run', () => {
+          setToday(7);
+          failToSend = true;
+          t.expect(() => BalanceSheet.dailyUpdate()).toThrow();
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentReminder).toHaveBeenCalledTimes(1);
+        });
+      });
+
+      t.describe('for rent config with escalation', () => {
+        let failToSend: boolean;
+
+        t.beforeEach(() => {
+          failToSend = false;
+          t.spyOn(EmailSender, 'sendRentIncreaseNotice').and.callFake(() => {
+            if (failToSend) throw new Error('Failed to send notice');
+          });
+          t.setConfig(Config.getRentConfigForTest(undefined, {
+            rentConfig: {
+              escalation: {
+                percentage: 0.03,
+                anniversaryDate: this.getDateInThisYear(7, 1),
+                noticeDays: 30,
+              },
+            },
+          }));
+        });
+
+        t.it('sends a notice ahead of the increase', () => {
+          setToday(2);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentIncreaseNotice).toHaveBeenCalled();
+        });
+
+        t.it('does not send a notice on other days', () => {
+          setToday(3);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentIncreaseNotice).not.toHaveBeenCalled();
+        });
+
+        t.it('sends a missed notice before the increase', () => {
+          setToday(1);
+          BalanceSheet.dailyUpdate();
+          setToday(5);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentIncreaseNotice).toHaveBeenCalledTimes(1);
+        });
+
+        t.it('skips a missed notice once the increase has started', () => {
+          setToday(1);
+          BalanceSheet.dailyUpdate();
+          today = this.getDateInThisYear(7, 2);
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentIncreaseNotice).not.toHaveBeenCalled();
+        });
+
+        t.it('does not send a notice again after a failed run', () => {
+          setToday(2);
+          failToSend = true;
+          t.expect(() => BalanceSheet.dailyUpdate()).toThrow();
+          BalanceSheet.dailyUpdate();
+          t.expect(EmailSender.sendRentIncreaseNotice).toHaveBeenCalledTimes(1);
+        });
+      });
+
+      t.describe('for recurring charges', () => {
+        t.beforeEach(() => {
+          t.setConfig(Config.getLoanConfigForTest(
+              {
+                charges: [
+                  {
+                    name: 'Parking',
+                    amount: 40,
+                    frequency: 'monthly',
+                    dayOfMonth: 5
+                  },
+                  {
+                    name: 'Water',
+                    amount: 90,
+                    frequency: 'quarterly',
+                    dayOfMonth: 5
+                  },
+                ],
+              },
+              {loanConfig: {interestRate: 0}}));
+        });
+
+        t.it('posts the charges that are due', () => {
+          // July is the first month of a quarter.
+          setToday(5);
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).toHaveBeenCalledTimes(2);
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.type).toBe('Charge');
+            return true;
+          });
+        });
+
+        t.it('skips a charge that is already in the ledger', () => {
+          setToday(5);
+          ledger = [{
+            date: today,
+            description: 'Parking',
+            transaction: -40,
+            type: 'Charge',
+          }];
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).toHaveBeenCalledTimes(1);
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.description).toBe('Water');
+            return true;
+          });
+        });
+      });
+
+      t.describe('for items on the Scheduled sheet', () => {
+        t.beforeEach(() => {
+          t.setConfig(Config.ZERO_INTEREST_LOAN);
+          t.spyOn(Scheduled, 'read').and.returnValue([{
+            date: this.getDateInThisYear(6, 3),
+            description: 'Repair reimbursement',
+            amount: 150,
+            isPosted: false,
+            row: 2,
+          }]);
+          t.spyOn(Scheduled, 'markPosted');
+        });
+
+        t.it('posts an item on its date and marks it posted', () => {
+          setToday(3);
+          BalanceSheet.dailyUpdate();
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.description).toBe('Repair reimbursement');
+            t.expect(row.transaction).toBe(150);
+            return true;
+          });
+          t.expect(Scheduled.markPosted).toHaveBeenCalled();
+        });
+
+        t.it('posts an overdue item on its own date', () => {
+          setToday(5);
+          BalanceSheet.dailyUpdate();
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.date).toEqual(this.getDateInThisYear(6, 3));
+            return true;
+          });
+        });
+
+        t.it('does not mark an item posted that the ledger already has', () => {
+          setToday(3);
+          ledger = [{
+            date: this.getDateInThisYear(6, 3),
+            description: 'Repair reimbursement',
+            transaction: 150,
+            type: 'Adjustment',
+          }];
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).not.toHaveBeenCalled();
+          t.expect(Scheduled.markPosted)
+              .not.toHaveBeenCalledLike(t.matcher(
+                  (args: unknown[]) => (args[0] as unknown[]).length > 0));
+        });
+
+        t.it('does not post an item before its date', () => {
+          setToday(2);
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).not.toHaveBeenCalled();
+        });
+      });
+
+      t.describe('for rent config with a late fee', () => {
+        const graceDays = 3;
+
+        t.beforeEach(() => {
+          t.setConfig(Config.getRentConfigForTest(undefined, {
+            rentConfig: {
+              dueDayOfMonth: configTransactionDayOfMonth,
+              lateFee: {graceDays, flatAmount: 50},
+            },
+          }));
+          setToday(configTransactionDayOfMonth + graceDays + 1);
+        });
+
+        t.it('charges the fee after the grace period if rent is owed', () => {
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(873);
+          BalanceSheet.dailyUpdate();
+          this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
+            t.expect(row.description).toBe('Late fee');
+            t.expect(row.transaction).toBe(-50);
+            t.expect(row.type).toBe('Fee');
+            return true;
+          });
+        });
+
+        t.it('does not charge the fee if rent was paid', () => {
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(0);
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).not.toHaveBeenCalled();
+        });
+
+        t.it('uses the balance from the end of the grace period', () => {
+          // Paid in full today, after the grace period ended.
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(0);
+          ledger = [{
+            date: today,
+            description: 'Rent payment',
+            transaction: 873,
+            type: 'Payment',
+          }];
+          BalanceSheet.dailyUpdate();
+          t.expect(BalanceSheet.insertRow).toHaveBeenCalledTimes(1);
+        });
+      });
     });
 
     t.describe('addPayment', () => {
@@ -181,12 +570,78 @@ export default class BalanceSheetTest implements JASLib.Test {
           this.expectInsertRowToHaveBeenCalledLike(t, (row: BalanceRow) => {
             t.expect(row.description).toBe(expectedDecription);
             t.expect(row.transaction).toBe(159);
+            t.expect(row.type).toBe('Payment');
             return true;
           });
         });
       }
     });
 
+    t.describe('addPayment with reference', () => {
+      const sheetContainer = this.withTempBalanceSheet(t);  // For pass-by-ref.
+      let sheet: Sheet;
+
+      t.beforeEach(() => {
+        sheet = sheetContainer.sheet;
+        t.setConfig(Config.getLoanConfigForTest());
+        t.spyOn(BalanceSheet, 'updateStatusCell');
+      });
+
+      const findReferenceColumn = () => {
+        const headerRow = sheet.getFrozenRows();
+        const headers = sheet.getRange(headerRow, 1, 1, sheet.getLastColumn())
+                            .getValues()[0];
+        return headers.indexOf(BalanceSheet.REFERENCE_COLUMN_NAME) + 1;
+      };
+
+      t.it('stores the reference in a hidden column', () => {
+        t.expect(BalanceSheet.addPayment(100, new Date(), 'message-1'))
+            .toBe(true);
+
+        const column = findReferenceColumn();
+        t.expect(column > 0).toBe(true);
+        t.expect(sheet.isColumnHiddenByUser(column)).toBe(true);
+        t.expect(sheet.getRange(sheet.getFrozenRows() + 1, column).getValue())
+            .toBe('message-1');
+        t.expect(() => BalanceSheet.validateActiveSheet()).not.toThrow();
+      });
+
+      t.it('refuses a second payment with the same reference', () => {
+        const lastRow = sheet.getLastRow();
+        BalanceSheet.addPayment(100, new Date(), 'message-1');
+        t.expect(BalanceSheet.addPayment(100, new Date(), 'message-1'))
+            .toBe(false);
+        t.expect(sheet.getLastRow()).toBe(lastRow + 1);
+      });
+
+      t.it('shows the note on the transaction cell', () => {
+        BalanceSheet.addPayment(100, new Date(), 'message-1', 'March rent');
+        const column = SSLib.JasSpreadsheet.findColumn('transaction', sheet);
+        t.expect(sheet.getRange(sheet.getFrozenRows() + 1, column).getNote())
+            .toBe('March rent');
+      });
+
+      t.it('refuses a payment with any reference already in the sheet', () => {
+        const lastRow = sheet.getLastRow();
+        BalanceSheet.addPayment(100, new Date(), 'message-1');
+        t.expect(BalanceSheet.addPayment(100, new Date(), [
+           'message-1', 'Venmo 4012'
+         ])).toBe(false);
+        BalanceSheet.addPayment(100, new Date(), ['message-2', 'Venmo 4013']);
+        t.expect(BalanceSheet.addPayment(100, new Date(), [
+           'message-3', 'Venmo 4013'
+         ])).toBe(false);
+        t.expect(sheet.getLastRow()).toBe(lastRow + 2);
+      });
+
+      t.it('allows payments with different references', () => {
+        const lastRow = sheet.getLastRow();
+        BalanceSheet.addPayment(100, new Date(), 'message-1');
+        BalanceSheet.addPayment(100, new Date(), 'message-2');
+        t.expect(sheet.getLastRow()).toBe(lastRow + 2);
+      });
+    });
+
     t.describe('insertRow', () => {
       const initialBalance = 500;
       const sheetContainer = this.withTempBalanceSheet(t);  // For pass-by-ref.
@@ -224,6 +679,7 @@ export default class BalanceSheetTest implements JASLib.Test {
           date: new Date(),
           transaction: -450,
           description: 'Partial rent due',
+          type: 'Rent charge',
         });
 
         expectNewRowValues(-450, 950, 'Partial rent due');
@@ -235,6 +691,7 @@ export default class BalanceSheetTest implements JASLib.Test {
           date: new Date(),
           transaction: 450,
           description: 'Rent payment',
+          type: 'Payment',
         });
 
         expectNewRowValues(450, 50, 'Rent payment');
@@ -246,6 +703,7 @@ export default class BalanceSheetTest implements JASLib.Test {
           date: new Date(),
           transaction: 'interest',
           description: 'Interest',
+          type: 'Interest',
         });
 
         const expectedInterest =
@@ -254,6 +712,242 @@ export default class BalanceSheetTest implements JASLib.Test {
         expectNewRowValues(expectedInterest, expectedBalance, 'Interest');
         t.expect(BalanceSheet.updateStatusCell).toHaveBeenCalled();
       });
+
+      t.it('fills in the types of a sheet that was not migrated', () => {
+        t.expect(() => BalanceSheet.validateActiveSheet()).toThrow();
+        BalanceSheet.insertRow({
+          date: new Date(),
+          transaction: 450,
+          description: 'Rent payment',
+          type: 'Payment',
+        });
+
+        t.expect(() => BalanceSheet.validateActiveSheet()).not.toThrow();
+      });
+
+      t.describe('in date order', () => {
+        /** Returns [description, balance] for every data row, top down. */
+        const getRows = (): Array<[string, number]> => {
+          const firstDataRow = sheet.getFrozenRows() + 1;
+          const numRows = sheet.getLastRow() - firstDataRow + 1;
+          const descriptionColumn =
+              SSLib.JasSpreadsheet.findColumn('description', sheet);
+          const balanceColumn =
+              SSLib.JasSpreadsheet.findColumn('balance', sheet);
+          const descriptions =
+              sheet.getRange(firstDataRow, descriptionColumn, numRows, 1)
+                  .getValues();
+          const balances =
+              sheet.getRange(firstDataRow, balanceColumn, numRows, 1)
+                  .getValues();
+          return descriptions.map((d, i) => [d[0], balances[i][0]]);
+        };
+
+        t.beforeEach(() => {
+          // Leave only a starting balance row, dated Jan 1.
+          this.deleteAllDataRows(sheet);
+          const firstDataRow = sheet.getFrozenRows() + 1;
+          sheet
+              .getRange(
+                  firstDataRow,
+                  SSLib.JasSpreadsheet.findColumn('balance', sheet))
+              .setValue(initialBalance);
+          sheet
+              .getRange(
+                  firstDataRow, SSLib.JasSpreadsheet.findColumn('date', sheet))
+              .setValue(this.getDateInThisYear(0, 1));
+          sheet
+              .getRange(
+                  firstDataRow,
+                  SSLib.JasSpreadsheet.findColumn('description', sheet))
+              .setValue('Start');
+        });
+
+        t.it('inserts a backdated row below newer rows', () => {
+          BalanceSheet.insertRow({
+            date: this.getDateInThisYear(2, 1),
+            transaction: 100,
+            description: 'March payment',
+            type: 'Payment',
+          });
+          BalanceSheet.insertRow({
+            date: this.getDateInThisYear(1, 1),
+            transaction: 50,
+            description: 'February payment',
+            type: 'Payment',
+          });
+
+          t.expect(getRows()).toEqual([
+            ['March payment', 350],
+            ['February payment', 450],
+            ['Start', initialBalance],
+          ]);
+        });
+
+        t.it('puts payments before interest on the same date', () => {
+          const date = this.getDateInThisYear(2, 1);
+          BalanceSheet.insertRow({
+            date,
+            transaction: 'interest',
+            description: 'Interest',
+            type: 'Interest',
+          });
+          BalanceSheet.insertRow({
+            date,
+            transaction: 140,
+            description: 'Payment',
+            type: 'Payment'
+          });
+
+          const interestRate = Config.get().loanConfig!.interestRate;
+          const balanceAfterPayment = initialBalance - 140;
+          const rows = getRows();
+          t.expect(rows.map(r => r[0])).toEqual([
+            'Interest',
+            'Payment',
+            'Start',
+          ]);
+          t.expect(rows[0][1])
+              .toBe(balanceAfterPayment * (1 + interestRate / 12));
+        });
+
+        t.it('recomputes daily accruals after a backdated payment', () => {
+          t.setConfig(Config.getLoanConfigForTest(undefined, {
+            loanConfig: {
+              interestDayOfMonth: 1,
+              interestMethod: 'daily accrual',
+              interestRate: 0.0365,
+            },
+          }));
+          // A month of interest on the starting balance, at 0.01% per day.
+          const daysInFebruary =
+              new Date(new Date().getFullYear(), 2, 0).getDate();
+          BalanceSheet.insertRow({
+            date: this.getDateInThisYear(2, 1),
+            transaction: -initialBalance * 0.0001 * daysInFebruary,
+            description: 'Interest',
+            type: 'Interest',
+          });
+          BalanceSheet.insertRow({
+            date: this.getDateInThisYear(1, 15),
+            transaction: 100,
+            description: 'Payment',
+            type: 'Payment',
+          });
+
+          // 14 days on the starting balance, and the rest after the payment.
+          const interest =
+              Math.round(
+                  (14 * initialBalance +
+                   (daysInFebruary - 14) * (initialBalance - 100)) *
+                  0.0001 * 100) /
+              100;
+          const interestRow = sheet.getFrozenRows() + 1;
+          const transactionCell = sheet.getRange(
+              interestRow,
+              SSLib.JasSpreadsheet.findColumn('transaction', sheet));
+          t.expect(transactionCell.getValue()).toBe(-interest);
+          t.expect(transactionCell.getNote()).toContain('14 days x $500.00');
+          t.expect(getRows()[0]).toEqual([
+            'Interest', initialBalance - 100 + interest
+          ]);
+        });
+
+        t.it('splits loan payments into interest and principal', () => {
+          BalanceSheet.insertRow({
+            date: this.getDateInThisYear(1, 1),
+            transaction: 'interest',
+            description: 'Interest',
+            type: 'Interest',
+          });
+          BalanceSheet.insertRow({
+            date: this.getDateInThisYear(1, 15),
+            transaction: 100,
+            description: 'Payment',
+            type: 'Payment',
+          });
+
+          const interest =
+              initialBalance * Config.get().loanConfig!.interestRate / 12;
+          const paymentRow = sheet.getFrozenRows() + 1;
+          const getCell = (columnName: string) =>
+              sheet
+                  .getRange(
+                      paymentRow,
+                      SSLib.JasSpreadsheet.findColumn(columnName, sheet))
+                  .getValue();
+          t.expect(getCell('interest')).toBe(Math.round(interest * 100) / 100);
+          t.expect(getCell('principal'))
+              .toBe(Math.round((100 - interest) * 100) / 100);
+        });
+      });
+    });
+
+    t.describe('migrate', () => {
+      const sheetContainer = this.withTempBalanceSheet(t);  // For pass-by-ref.
+      let sheet: Sheet;
+
+      t.beforeEach(() => {
+        sheet = sheetContainer.sheet;
+        this.deleteAllDataRows(sheet);
+        const firstDataRow = sheet.getFrozenRows() + 1;
+        const descriptionColumn =
+            SSLib.JasSpreadsheet.findColumn('description', sheet);
+        const trxColumn = SSLib.JasSpreadsheet.findColumn('transaction', sheet);
+        const rows: Array<[string, number]> = [
+          ['Monthly interest', -20],
+          ['Loan payment', 100],
+          ['Rent due', -900],
+          ['Starting balance', 0],
+        ];
+        rows.forEach(([description, transaction], i) => {
+          sheet.getRange(firstDataRow + i, descriptionColumn)
+              .setValue(description);
+          sheet.getRange(firstDataRow + i, trxColumn).setValue(transaction);
+        });
+      });
+
+      t.it('adds a type column with inferred types', () => {
+        BalanceSheet.migrate();
+
+        const typeColumn = SSLib.JasSpreadsheet.findColumn('type', sheet);
+        const types =
+            sheet.getRange(sheet.getFrozenRows() + 1, typeColumn, 4, 1)
+                .getValues()
+                .map(row => row[0]);
+        t.expect(types).toEqual(
+            ['Interest', 'Payment', 'Rent charge', 'Adjustment']);
+      });
+
+      t.it('keeps existing types', () => {
+        BalanceSheet.migrate();
+        const typeColumn = SSLib.JasSpreadsheet.findColumn('type', sheet);
+        const firstTypeCell =
+            sheet.getRange(sheet.getFrozenRows() + 1, typeColumn);
+        firstTypeCell.setValue('Fee');
+
+        BalanceSheet.migrate();
+        t.expect(firstTypeCell.getValue()).toBe('Fee');
+      });
+    });
+
+    t.describe('inferTransactionType', () => {
+      t.it('infers types from descriptions', () => {
+        const specs: Array<[string, number, TransactionType]> = [
+          ['Rent due', -900, 'Rent charge'],
+          ['Rent payment', 900, 'Payment'],
+          ['Loan payment', 100, 'Payment'],
+          ['Monthly interest', -12, 'Interest'],
+          ['Late fee', -50, 'Fee'],
+          ['Deposit refund', -200, 'Refund'],
+          ['Loan disbursement', -5000, 'Disbursement'],
+          ['Correction', 13, 'Adjustment'],
+        ];
+        for (const [description, transaction, expectedType] of specs) {
+          t.expect(BalanceSheet.inferTransactionType(description, transaction))
+              .toBe(expectedType);
+        }
+      });
     });
 
     t.describe('validateActiveSheet', () => {
@@ -261,10 +955,27 @@ export default class BalanceSheetTest implements JASLib.Test {
       let sheet: Sheet;
       t.beforeEach(() => (sheet = sheetContainer.sheet));
 
-      t.it('accepts untampered template spreadsheet', () => {
+      t.it('accepts migrated template spreadsheet', () => {
+        BalanceSheet.migrate();
         t.expect(() => BalanceSheet.validateActiveSheet()).not.toThrow();
       });
 
+      t.it('throws for unmigrated template spreadsheet', () => {
+        t.expect(() => BalanceSheet.validateActiveSheet())
+            .toThrow(`Expected a 'type' column`);
+      });
+
+      t.it('throws for invalid transaction type', () => {
+        BalanceSheet.migrate();
+        const typeColumn = SSLib.JasSpreadsheet.findColumn('type', sheet);
+        const firstDataRow = sheet.getFrozenRows() + 1;
+        sheet.getRange(firstDataRow, typeColumn)
+            .clearDataValidations()
+            .setValue('Gift');
+        t.expect(() => BalanceSheet.validateActiveSheet())
+            .toThrow('Invalid transaction type');
+      });
+
       t.it('throws for no data row', () => {
         this.deleteAllDataRows(sheet);
         t.expect(() => BalanceSheet.validateActiveSheet()).toThrow();
@@ -459,7 +1170,8 @@ export default class BalanceSheetTest implements JASLib.Test {
           for (let i = payments.length - 1; i >= 0; i--) {
             const date = this.getDateInThisYear(5 - i, 17);
             const transaction = payments[i];
-            BalanceSheet.insertRow({date, description, transaction});
+            BalanceSheet.insertRow(
+                {date, description, transaction, type: 'Payment'});
           }
         };
 
@@ -500,10 +1212,10 @@ export default class BalanceSheetTest implements JASLib.Test {
           const interestRate = 0.078;
           const balance = 3874.17;
           t.setConfig(Config.getLoanConfigForTest(
-              undefined, {loanConfig: {interestRate}}));
+              undefined, {loanConfig: {interestRate, interestDayOfMonth: 27}}));
           t.spyOn(BalanceSheet, 'getBalance').and.returnValue(balance);
-          t.spyOn(Util, 'getNextDayOfMonth')
-              .and.returnValue(this.getDateInThisYear(3, 27));
+          t.spyOn(BalanceSheet, 'getToday')
+              .and.returnValue(this.getDateInThisYear(3, 20));
           BalanceSheet.updateStatusCell();
 
           const nextInterestAmount = balance * interestRate / 12;
@@ -517,23 +1229,230 @@ export default class BalanceSheetTest implements JASLib.Test {
         t.it('works for rent config', () => {
           const monthlyAmount = 1671;
           t.setConfig(Config.getRentConfigForTest(undefined, {
-            rentConfig: {monthlyAmount},
+            rentConfig: {monthlyAmount, dueDayOfMonth: 3},
           }));
-          t.spyOn(Util, 'getNextDayOfMonth')
-              .and.returnValue(this.getDateInThisYear(9, 3));
+          t.spyOn(BalanceSheet, 'getToday')
+              .and.returnValue(this.getDateInThisYear(8, 15));
           BalanceSheet.updateStatusCell();
 
           const {text, styledRuns} = getLineInStatusCell('upcoming');
           t.expect(text).toBe(`Upcoming: $1,671 due on Oct 03`);
           t.expect(styledRuns[0].getText()).toBe(`$1,671`);
         });
+
+        t.it('lists recurring charges after rent', () => {
+          t.setConfig(Config.getRentConfigForTest(
+              {
+                charges: [{
+                  name: 'Parking',
+                  amount: 40,
+                  frequency: 'monthly',
+                  dayOfMonth: 5,
+                }],
+              },
+              {rentConfig: {monthlyAmount: 1671, dueDayOfMonth: 3}}));
+          t.spyOn(BalanceSheet, 'getToday')
+              .and.returnValue(this.getDateInThisYear(8, 15));
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('upcoming');
+          t.expect(text).toBe(
+              `Upcoming: $1,671 due on Oct 03, $40 Parking due on Oct 05`);
+          t.expect(styledRuns[1].getText()).toBe(`$40`);
+        });
+      });
+
+      t.describe('paid so far line', () => {
+        t.it('shows the principal and interest paid on a loan', () => {
+          t.setConfig(Config.getLoanConfigForTest());
+          t.spyOn(BalanceSheet, 'readLedger').and.returnValue([
+            {
+              date: this.getDateInThisYear(1, 15),
+              description: 'Payment',
+              transaction: 100,
+              type: 'Payment',
+            },
+            {
+              date: this.getDateInThisYear(1, 1),
+              description: 'Interest',
+              transaction: -4.17,
+              type: 'Interest',
+            },
+          ]);
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('paid so far');
+          t.expect(text).toBe('Paid so far: $95.83 principal, $4.17 interest');
+          t.expect(styledRuns.map(run => run.getText())).toEqual([
+            '$95.83',
+            '$4.17',
+          ]);
+        });
+
+        t.it(`doesn't exist for rent`, () => {
+          t.setConfig(Config.DEFAULT);
+          BalanceSheet.updateStatusCell();
+
+          t.expect(getLineInStatusCell('paid so far')).toBeNull();
+        });
+      });
+
+      t.describe('payoff line', () => {
+        t.beforeEach(() => {
+          t.spyOn(BalanceSheet, 'getToday')
+              .and.returnValue(new Date(new Date().getFullYear(), 0, 15));
+        });
+
+        t.it('projects the payoff date and remaining interest', () => {
+          t.setConfig(Config.getLoanConfigForTest(
+              undefined, {loanConfig: {interestRate: 0.12}}));
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(1000);
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('paid off');
+          t.expect(text).toBe(
+              'With $100 monthly payments, paid off on Dec 01 with $58.98 more interest');
+          t.expect(styledRuns.map(run => run.getText())).toEqual([
+            '$100',
+            '$58.98',
+          ]);
+        });
+
+        t.it(`warns when payments don't cover the interest`, () => {
+          t.setConfig(Config.getLoanConfigForTest(
+              undefined, {loanConfig: {interestRate: 0.12}}));
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(20000);
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('never paid off');
+          t.expect(text).toBe(
+              `With $100 monthly payments, never paid off: payments don't cover the $200 monthly interest`);
+          t.expect(styledRuns[1].getTextStyle().getForegroundColor())
+              .toBe(Colors.RED_BALANCE);
+        });
+
+        t.it('warns when payoff takes too many payments', () => {
+          t.setConfig(Config.getLoanConfigForTest(
+              undefined, {loanConfig: {interestRate: 0}}));
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(200000);
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('not paid off');
+          t.expect(text).toBe(
+              'With $100 monthly payments, not paid off within 1200 payments');
+          t.expect(styledRuns[1].getTextStyle().getForegroundColor())
+              .toBe(Colors.RED_BALANCE);
+        });
+
+        t.it(`doesn't exist without a default payment`, () => {
+          t.setConfig(Config.getLoanConfigForTest(
+              undefined, {loanConfig: {defaultPayment: undefined}}));
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(1000);
+          BalanceSheet.updateStatusCell();
+
+          t.expect(getLineInStatusCell('paid off')).toBeNull();
+        });
+      });
+
+      t.describe('next scheduled line', () => {
+        t.it('shows the next item on the Scheduled sheet', () => {
+          t.setConfig(Config.DEFAULT);
+          t.spyOn(BalanceSheet, 'getToday')
+              .and.returnValue(this.getDateInThisYear(9, 15));
+          t.spyOn(Scheduled, 'read').and.returnValue([{
+            date: this.getDateInThisYear(9, 20),
+            description: 'Key replacement',
+            amount: -75,
+            isPosted: false,
+            row: 2,
+          }]);
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('next scheduled');
+          t.expect(text).toBe(
+              'Next scheduled: $75 charge for Key replacement on Oct 20');
+          t.expect(styledRuns[0].getText()).toBe('$75');
+        });
+
+        t.it(`doesn't exist without scheduled items`, () => {
+          t.setConfig(Config.DEFAULT);
+          t.spyOn(Scheduled, 'read').and.returnValue([]);
+          BalanceSheet.updateStatusCell();
+
+          t.expect(getLineInStatusCell('next scheduled')).toBeNull();
+        });
+      });
+
+      t.describe('lease end line', () => {
+        t.it('shows the final balance after the remaining rent', () => {
+          t.setConfig(Config.getRentConfigForTest(undefined, {
+            rentConfig: {
+              monthlyAmount: 1000,
+              dueDayOfMonth: 1,
+              leaseEndDate: this.getDateInThisYear(11, 31),
+            },
+          }));
+          t.spyOn(BalanceSheet, 'getToday')
+              .and.returnValue(this.getDateInThisYear(9, 15));
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(200);
+          BalanceSheet.updateStatusCell();
+
+          // Rent on Nov 1 and Dec 1.
+          const {text, styledRuns} = getLineInStatusCell('lease');
+          t.expect(text).toBe(
+              'Lease ends on Dec 31, final balance $2,200 if no more ' +
+              'payments are made');
+          t.expect(styledRuns[0].getText()).toBe('$2,200');
+        });
+
+        t.it(`doesn't exist without a lease end date`, () => {
+          t.setConfig(Config.DEFAULT);
+          BalanceSheet.updateStatusCell();
+
+          t.expect(getLineInStatusCell('lease')).toBeNull();
+        });
+      });
+
+      t.describe('late fee line', () => {
+        t.beforeEach(() => {
+          t.setConfig(Config.getRentConfigForTest(undefined, {
+            rentConfig: {lateFee: {graceDays: 5, percentage: 0.05}},
+          }));
+          t.spyOn(LateFee, 'getNextFeeDate')
+              .and.returnValue(this.getDateInThisYear(9, 21));
+        });
+
+        t.it('shows the fee while rent is owed', () => {
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(1000);
+          BalanceSheet.updateStatusCell();
+
+          const {text, styledRuns} = getLineInStatusCell('late fee');
+          t.expect(text).toBe('Late fee: $50 applies on Oct 21 if unpaid');
+          t.expect(styledRuns[0].getText()).toBe('$50');
+        });
+
+        t.it(`doesn't exist when nothing is owed`, () => {
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(0);
+          BalanceSheet.updateStatusCell();
+
+          t.expect(getLineInStatusCell('late fee')).toBeNull();
+        });
+
+        t.it(`doesn't exist after the lease ends`, () => {
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(1000);
+          t.spyOn(LateFee, 'getNextFeeDate').and.returnValue(null);
+          BalanceSheet.updateStatusCell();
+
+          t.expect(getLineInStatusCell('late fee')).toBeNull();
+        });
       });
 
       t.describe('sets row height', () => {
         t.it('for balance only', () => {
           t.setConfig(Config.ZERO_INTEREST_LOAN);
-          // With no previous payments
+          // With no previous payments, and nothing left to pay off.
           deleteAllPaymentRows();
+          t.spyOn(BalanceSheet, 'getBalance').and.returnValue(0);
           BalanceSheet.updateStatusCell();
 
           t.expect(sheet.getRowHeight(1)).toBe(37);
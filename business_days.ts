@@ -0,0 +1,74 @@
+import Util from './_util';
+import {BusinessDayPolicy} from './config';
+
+export default class BusinessDays {
+  /**
+   * Moves `date` to a business day, according to `policy`. Weekends and
+   * holidays are not business days.
+   * @param holidays Replaces the US federal holidays if given.
+   */
+  static shift(
+      date: Date, policy: BusinessDayPolicy = 'none', holidays?: Date[]): Date {
+    if (policy === 'none') return date;
+    const step = policy === 'next business day' ? 1 : -1;
+    let shifted = date;
+    while (!BusinessDays.isBusinessDay(shifted, holidays)) {
+      shifted = Util.addDays(shifted, step);
+    }
+    return shifted;
+  }
+
+  static isBusinessDay(date: Date, holidays?: Date[]): boolean {
+    const dayOfWeek = date.getDay();
+    if (dayOfWeek === 0 || dayOfWeek === 6) return false;
+
+    const year = date.getFullYear();
+    // New Year's Day is observed on Dec 31 when it falls on a Saturday.
+    holidays = holidays ?? [
+      ...BusinessDays.getUsFederalHolidays(year),
+      ...BusinessDays.getUsFederalHolidays(year + 1),
+    ];
+    const dayStart = Util.getDayStart(date);
+    return !holidays.some(holiday => Util.getDayStart(holiday) === dayStart);
+  }
+
+  /**
+   * Returns the days that US federal holidays are observed on in `year`. A
+   * holiday on a Saturday is observed on the Friday before, and one on a
+   * Sunday on the Monday after.
+   */
+  static getUsFederalHolidays(year: number): Date[] {
+    const fixed = (month: number, day: number) => {
+      const date = new Date(year, month, day);
+      if (date.getDay() === 6) return Util.addDays(date, -1);
+      if (date.getDay() === 0) return Util.addDays(date, 1);
+      return date;
+    };
+    // The nth weekday of a month, or the last one if n is -1.
+    const nthWeekday = (month: number, weekday: number, n: number) => {
+      if (n === -1) {
+        const lastDay = new Date(year, month + 1, 0);
+        return Util.addDays(lastDay, -((lastDay.getDay() - weekday + 7) % 7));
+      }
+      const firstDay = new Date(year, month, 1);
+      return Util.addDays(
+          firstDay, (weekday - firstDay.getDay() + 7) % 7 + 7 * (n - 1));
+    };
+    const monday = 1;
+    const thursday = 4;
+
+    return [
+      fixed(0, 1),                  // New Year's Day
+      nthWeekday(0, monday, 3),     // Birthday of Martin Luther King, Jr.
+      nthWeekday(1, monday, 3),     // Washington's Birthday
+      nthWeekday(4, monday, -1),    // Memorial Day
+      fixed(5, 19),                 // Juneteenth
+      fixed(6, 4),                  // Independence Day
+      nthWeekday(8, monday, 1),     // Labor Day
+      nthWeekday(9, monday, 2),     // Columbus Day
+      fixed(10, 11),                // Veterans Day
+      nthWeekday(10, thursday, 4),  // Thanksgiving Day
+      fixed(11, 25),                // Christmas Day
+    ];
+  }
+}
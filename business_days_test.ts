@@ -0,0 +1,73 @@
+import {JASLib} from 'jas_api';
+
+import BusinessDays from './business_days';
+import Tester from './testing/tester';
+
+export default class BusinessDaysTest implements JASLib.Test {
+  readonly name: string = 'BusinessDaysTest';
+
+  run(t: Tester) {
+    t.describe('getUsFederalHolidays', () => {
+      const holidays = BusinessDays.getUsFederalHolidays(2021);
+      const isHoliday = (month: number, day: number) => holidays.some(
+          holiday =>
+              holiday.getTime() === new Date(2021, month, day).getTime());
+
+      t.it('finds holidays on a weekday of the month', () => {
+        t.expect(isHoliday(0, 18)).toBe(true);
+        t.expect(isHoliday(4, 31)).toBe(true);
+        t.expect(isHoliday(8, 6)).toBe(true);
+        t.expect(isHoliday(10, 25)).toBe(true);
+      });
+
+      t.it('observes weekend holidays on the closest weekday', () => {
+        // Jul 4 was a Sunday and Dec 25 a Saturday.
+        t.expect(isHoliday(6, 5)).toBe(true);
+        t.expect(isHoliday(11, 24)).toBe(true);
+        t.expect(isHoliday(6, 4)).toBe(false);
+      });
+    });
+
+    t.describe('isBusinessDay', () => {
+      t.it('excludes weekends and holidays', () => {
+        t.expect(BusinessDays.isBusinessDay(new Date(2021, 6, 6))).toBe(true);
+        t.expect(BusinessDays.isBusinessDay(new Date(2021, 6, 3))).toBe(false);
+        t.expect(BusinessDays.isBusinessDay(new Date(2021, 6, 5))).toBe(false);
+      });
+
+      t.it(`observes next year's New Year's Day`, () => {
+        // Jan 1, 2022 was a Saturday.
+        t.expect(BusinessDays.isBusinessDay(new Date(2021, 11, 31)))
+            .toBe(false);
+      });
+
+      t.it('uses the given holidays instead', () => {
+        const holidays = [new Date(2021, 6, 6)];
+        t.expect(BusinessDays.isBusinessDay(new Date(2021, 6, 5), holidays))
+            .toBe(true);
+        t.expect(BusinessDays.isBusinessDay(new Date(2021, 6, 6), holidays))
+            .toBe(false);
+      });
+    });
+
+    t.describe('shift', () => {
+      // Saturday before the observed Independence Day.
+      const saturday = new Date(2021, 6, 3);
+
+      t.it('moves to the next business day', () => {
+        t.expect(BusinessDays.shift(saturday, 'next business day'))
+            .toEqual(new Date(2021, 6, 6));
+      });
+
+      t.it('moves to the previous business day', () => {
+        t.expect(BusinessDays.shift(saturday, 'previous business day'))
+            .toEqual(new Date(2021, 6, 2));
+      });
+
+      t.it('does not move without a policy', () => {
+        t.expect(BusinessDays.shift(saturday, 'none')).toEqual(saturday);
+        t.expect(BusinessDays.shift(saturday)).toEqual(saturday);
+      });
+    });
+  }
+}
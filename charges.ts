@@ -0,0 +1,40 @@
+import {BalanceRow} from './balance_sheet';
+import {RecurringCharge, ScheduleConfig} from './config';
+import Schedule from './schedule';
+
+export default class Charges {
+  /** Returns the recurring charges to post on `date`. */
+  static getRows(charges: RecurringCharge[], date: Date): BalanceRow[] {
+    return charges
+        .filter(charge => Schedule.isDueOn(Charges.getSchedule(charge), date))
+        .map(charge => ({
+               date,
+               description: charge.name,
+               transaction: -charge.amount,
+               type: 'Charge',
+             }));
+  }
+
+  /** Returns the next time each charge is due after `today`, soonest first. */
+  static getUpcoming(charges: RecurringCharge[], today: Date):
+      UpcomingCharge[] {
+    return charges
+        .map(charge => ({
+               name: charge.name,
+               amount: charge.amount,
+               date: Schedule.getNextDate(Charges.getSchedule(charge), today),
+             }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /** Quarterly charges are due in January, April, July and October. */
+  private static getSchedule(charge: RecurringCharge): ScheduleConfig {
+    return Schedule.fromDayOfMonth(charge.dayOfMonth, charge.frequency);
+  }
+}
+
+export interface UpcomingCharge {
+  name: string;
+  amount: number;
+  date: Date;
+}
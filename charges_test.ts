@@ -0,0 +1,60 @@
+import {JASLib} from 'jas_api';
+
+import Charges from './charges';
+import {RecurringCharge} from './config';
+import Tester from './testing/tester';
+
+export default class ChargesTest implements JASLib.Test {
+  readonly name: string = 'ChargesTest';
+
+  run(t: Tester) {
+    const parking: RecurringCharge = {
+      name: 'Parking',
+      amount: 40,
+      frequency: 'monthly',
+      dayOfMonth: 5,
+    };
+    const water: RecurringCharge = {
+      name: 'Water',
+      amount: 90,
+      frequency: 'quarterly',
+      dayOfMonth: 10,
+    };
+
+    t.describe('getRows', () => {
+      t.it('posts monthly charges on their day', () => {
+        const date = new Date(2020, 4, 5);
+        t.expect(Charges.getRows([parking, water], date)).toEqual([{
+          date,
+          description: 'Parking',
+          transaction: -40,
+          type: 'Charge',
+        }]);
+        t.expect(Charges.getRows([parking], new Date(2020, 4, 6))).toEqual([]);
+      });
+
+      t.it('posts quarterly charges in the first month of a quarter', () => {
+        t.expect(Charges.getRows([water], new Date(2020, 3, 10)).length)
+            .toBe(1);
+        t.expect(Charges.getRows([water], new Date(2020, 4, 10)).length)
+            .toBe(0);
+      });
+    });
+
+    t.describe('getUpcoming', () => {
+      t.it('returns the next due date of each charge, soonest first', () => {
+        t.expect(Charges.getUpcoming([water, parking], new Date(2020, 4, 5)))
+            .toEqual([
+              {name: 'Parking', amount: 40, date: new Date(2020, 5, 5)},
+              {name: 'Water', amount: 90, date: new Date(2020, 6, 10)},
+            ]);
+      });
+
+      t.it('includes a charge due tomorrow', () => {
+        t.expect(Charges.getUpcoming([parking], new Date(2020, 4, 4, 12)))
+            .toEqual(
+                [{name: 'Parking', amount: 40, date: new Date(2020, 4, 5)}]);
+      });
+    });
+  }
+}
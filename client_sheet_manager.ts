@@ -70,6 +70,7 @@ export default class ClientSheetManager {
       }
 
       Config.get();  // This will validate that the Config sheet.
+      BalanceSheet.migrate();
       BalanceSheet.validateActiveSheet();
       Menu.validateSpreadsheetId(spreadsheetId);
     } catch (e) {
@@ -110,6 +111,16 @@ export default class ClientSheetManager {
         ClientSheetManager.STORAGE_PROPERTIES.REGISTERED_CLIENTS);
   }
 
+  /**
+   * Throws if `spreadsheetId` isn't a registered client sheet. For ids that
+   * come from sidebars, which anyone can call with any id.
+   */
+  static validateRegistered(spreadsheetId: string) {
+    if (!ClientSheetManager.getAll().includes(spreadsheetId)) {
+      throw new Error(`${spreadsheetId} is not a registered client sheet.`);
+    }
+  }
+
   static getClientSheetNames() {
     return ClientSheetManager.readStringArray(
         ClientSheetManager.STORAGE_PROPERTIES.CLIENT_SHEET_NAMES);
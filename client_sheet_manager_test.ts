@@ -24,6 +24,7 @@ export default class ClientSheetManagerTest implements JASLib.Test {
       t.spyOn(Config, 'get').and.callFake(() => {
         if (forceConfigSheetInvalid) throw new Error('Config is invalid');
       });
+      t.spyOn(BalanceSheet, 'migrate');
       t.spyOn(BalanceSheet, 'validateActiveSheet').and.callFake(() => {
         if (forceBalanceSheetInvalid) {
           throw new Error('Balance sheet is invalid');
@@ -133,6 +134,25 @@ export default class ClientSheetManagerTest implements JASLib.Test {
       });
     });
 
+    t.describe('validateRegistered', () => {
+      t.beforeEach(() => {
+        forceConfigSheetInvalid = false;
+        forceBalanceSheetInvalid = false;
+        forceMenuIdCheckInvalid = false;
+        ClientSheetManager.register('sheet-id');
+      });
+
+      t.it('accepts registered spreadsheets', () => {
+        t.expect(() => ClientSheetManager.validateRegistered('sheet-id'))
+            .not.toThrow();
+      });
+
+      t.it('throws for unknown spreadsheets', () => {
+        t.expect(() => ClientSheetManager.validateRegistered('other-id'))
+            .toThrow('not a registered client sheet');
+      });
+    });
+
     t.describe('forEach', () => {
       const eachFn = () => {};
       const observer = {eachFn};
@@ -2,17 +2,47 @@ import {SSLib} from 'ss_api';
 
 import Util from './_util';
 
-
+type SheetCache = ReturnType<typeof SSLib.JasSpreadsheet.createSheetCache>;
 
 export default class Config {
   static readonly SHEET_NAME = 'Config';
+  /** Optional sheet with the interest rate history of a variable-rate loan. */
+  static readonly RATES_SHEET_NAME = 'Rates';
+  /** Optional sheet of holidays that replace the US federal holidays. */
+  static readonly HOLIDAYS_SHEET_NAME = 'Holidays';
+  /** Optional sheet of recurring charges, like utilities or parking. */
+  static readonly CHARGES_SHEET_NAME = 'Charges';
+
+  static readonly CHARGE_FREQUENCIES = ['monthly', 'quarterly'] as const;
+  static readonly SCHEDULE_FREQUENCIES = [
+    'weekly',
+    'biweekly',
+    'semimonthly',
+    'monthly',
+    'quarterly',
+  ] as const;
 
   static readonly PaymentTypeStrings: Record<string, string> = {
+    ACH: 'ACH',
+    'Cash App': 'Cash App',
+    PayPal: 'PayPal',
     Test: 'Test',
     Venmo: 'Venmo',
     Zelle: 'Zelle',
   };
 
+  /**
+   * Values of the 'loan interest method' field. Monthly flat is the default.
+   */
+  static readonly INTEREST_METHODS = ['monthly flat', 'daily accrual'] as const;
+  static readonly BUSINESS_DAY_POLICIES = [
+    'none',
+    'next business day',
+    'previous business day',
+  ] as const;
+
+  static readonly DEFAULT_ESCALATION_NOTICE_DAYS = 30;
+
   static readonly DEFAULT = Config.getRentConfigForTest();
   static readonly ZERO_INTEREST_LOAN = Config.getLoanConfigForTest(undefined, {
     loanConfig: {interestRate: 0},
@@ -38,6 +68,29 @@ export default class Config {
       return sheetCache.data[configRow][valueColumn];
     };
 
+    // For fields added after the first client sheets were made. Older Config
+    // sheets may not have a row for them, which reads as a blank cell. Other
+    // errors, like a field that is on more than one row, still throw.
+    const hasRow = (configField: ConfigField) => sheetCache.data.some(
+        rowData =>
+            Config.getLabels(rowData, valueColumn).includes(configField));
+    const getOptionalCellData = (configField: ConfigField) =>
+        hasRow(configField) ? getCellData(configField) : new SSLib.CellData('');
+    const getOptionalDate = (configField: ConfigField) => {
+      const cellData = getOptionalCellData(configField);
+      return cellData.isBlank() ? undefined : cellData.date();
+    };
+    /** Returns undefined if no frequency is set. */
+    const getOptionalSchedule =
+        (frequencyField: ConfigField, anchorDateField: ConfigField) => {
+          const frequency = getOptionalCellData(frequencyField).string('');
+          if (!frequency.trim()) return undefined;
+          return {
+            frequency: frequency.trim().toLowerCase() as ScheduleFrequency,
+            anchorDate: getOptionalDate(anchorDateField),
+          };
+        };
+
     // Only rent or loan config should be set. Don't set them at all if the
     // cells are blank.
 
@@ -48,8 +101,65 @@ export default class Config {
         !rentMonthlyDueDateCellData.isBlank()) {
       rentConfig = {
         monthlyAmount: rentMonthlyAmountCellData.number(),
-        dueDayOfMonth: rentMonthlyDueDateCellData.number(),
+        dueDayOfMonth: Config.readDayOfMonth(rentMonthlyDueDateCellData),
+      };
+
+      const dueSchedule = getOptionalSchedule(
+          F.rentConfig_dueFrequency, F.rentConfig_dueAnchorDate);
+      if (dueSchedule) rentConfig.dueSchedule = dueSchedule;
+      const reminderDays =
+          getOptionalCellData(F.rentConfig_reminderDays).numberOptional();
+      if (reminderDays !== undefined) rentConfig.reminderDays = reminderDays;
+
+      const businessDayPolicy =
+          getOptionalCellData(F.rentConfig_businessDayPolicy)
+              .string('')
+              .trim()
+              .toLowerCase();
+      if (businessDayPolicy) {
+        rentConfig.businessDayPolicy = businessDayPolicy as BusinessDayPolicy;
+      }
+      const holidays = Config.readHolidays();
+      if (holidays) rentConfig.holidays = holidays;
+
+      const escalationCellDatas = {
+        percentage: getOptionalCellData(F.rentConfig_escalationPercentage),
+        amount: getOptionalCellData(F.rentConfig_escalationAmount),
+        anniversaryDate:
+            getOptionalCellData(F.rentConfig_escalationAnniversaryDate),
+        noticeDays: getOptionalCellData(F.rentConfig_escalationNoticeDays),
       };
+      if (Object.values(escalationCellDatas).some(cd => !cd.isBlank())) {
+        rentConfig.escalation = {
+          percentage: escalationCellDatas.percentage.numberOptional(),
+          amount: escalationCellDatas.amount.numberOptional(),
+          anniversaryDate: escalationCellDatas.anniversaryDate.isBlank() ?
+              undefined :
+              escalationCellDatas.anniversaryDate.date(),
+          noticeDays: escalationCellDatas.noticeDays.number(
+              Config.DEFAULT_ESCALATION_NOTICE_DAYS),
+        };
+      }
+
+      const leaseStartDate = getOptionalDate(F.rentConfig_leaseStartDate);
+      if (leaseStartDate) rentConfig.leaseStartDate = leaseStartDate;
+      const leaseEndDate = getOptionalDate(F.rentConfig_leaseEndDate);
+      if (leaseEndDate) rentConfig.leaseEndDate = leaseEndDate;
+
+      const lateFeeCellDatas = {
+        graceDays: getOptionalCellData(F.rentConfig_lateFeeGraceDays),
+        flatAmount: getOptionalCellData(F.rentConfig_lateFeeFlatAmount),
+        percentage: getOptionalCellData(F.rentConfig_lateFeePercentage),
+        maxPerMonth: getOptionalCellData(F.rentConfig_lateFeeMaxPerMonth),
+      };
+      if (Object.values(lateFeeCellDatas).some(cd => !cd.isBlank())) {
+        rentConfig.lateFee = {
+          graceDays: lateFeeCellDatas.graceDays.number(0),
+          flatAmount: lateFeeCellDatas.flatAmount.numberOptional(),
+          percentage: lateFeeCellDatas.percentage.numberOptional(),
+          maxPerMonth: lateFeeCellDatas.maxPerMonth.numberOptional(),
+        };
+      }
     }
 
     let loanConfig: LoanConfig;
@@ -63,8 +173,33 @@ export default class Config {
       loanConfig = {
         defaultPayment: loanDefaultPaymentCellData.numberOptional(),
         interestRate: loanInterestRateCellData.number(),
-        interestDayOfMonth: loanMonthlyInterestDayCellData.numberOptional(),
+        interestDayOfMonth:
+            Config.readDayOfMonth(loanMonthlyInterestDayCellData),
       };
+
+      const interestMethod = getOptionalCellData(F.loanConfig_interestMethod)
+                                 .string('')
+                                 .trim()
+                                 .toLowerCase();
+      if (interestMethod) {
+        loanConfig.interestMethod = interestMethod as InterestMethod;
+      }
+
+      const interestSchedule = getOptionalSchedule(
+          F.loanConfig_interestFrequency, F.loanConfig_interestAnchorDate);
+      if (interestSchedule) loanConfig.interestSchedule = interestSchedule;
+
+      const rateHistory = Config.readRateHistory();
+      if (rateHistory) loanConfig.rateHistory = rateHistory;
+
+      const principal =
+          getOptionalCellData(F.loanConfig_principal).numberOptional();
+      const startDate = getOptionalDate(F.loanConfig_startDate);
+      const termMonths =
+          getOptionalCellData(F.loanConfig_termMonths).numberOptional();
+      if (principal !== undefined || startDate || termMonths !== undefined) {
+        loanConfig.term = {principal, startDate, termMonths};
+      }
     }
 
     const paymentTypes = getCellData(F.searchQuery_paymentTypes)
@@ -73,7 +208,12 @@ export default class Config {
                              .map((pt) => pt.trim())
                              .filter(pt => !!pt);
 
+    const charges = Config.readCharges();
+    const customParsers = Config.readCustomParsers(sheetCache, valueColumn);
+
     return Config.validate({
+      ...(charges && {charges}),
+      ...(customParsers.length && {customParsers}),
       customerDisplayName: getCellData(F.customerDisplayName).string(),
       customerEmails: getCellData(F.customerEmails).stringArray(),
       emailCCs: getCellData(F.emailCCs).stringArray(),
@@ -91,6 +231,147 @@ export default class Config {
     });
   }
 
+  /**
+   * Reads the 'effective date' and 'rate' columns of the Rates sheet, oldest
+   * first. Returns undefined if the spreadsheet has no Rates sheet.
+   */
+  private static readRateHistory(): RateChange[]|undefined {
+    const sheetCache = Config.createOptionalSheetCache(Config.RATES_SHEET_NAME);
+    if (!sheetCache) return undefined;
+
+    const dateColumn =
+        SSLib.JasSpreadsheet.findColumnInCache('effective date', sheetCache);
+    const rateColumn =
+        SSLib.JasSpreadsheet.findColumnInCache('rate', sheetCache);
+
+    const rateHistory: RateChange[] = [];
+    // The number of frozen rows is also the 0-based index of the first data
+    // row.
+    for (let row = sheetCache.headerRow; row < sheetCache.data.length; row++) {
+      const dateCellData = sheetCache.data[row][dateColumn];
+      const rateCellData = sheetCache.data[row][rateColumn];
+      if (dateCellData.isBlank() && rateCellData.isBlank()) continue;
+      rateHistory.push({
+        effectiveDate: dateCellData.date(),
+        rate: rateCellData.number(),
+      });
+    }
+    return rateHistory.sort(
+        (a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  }
+
+  /**
+   * Reads the 'date' column of the Holidays sheet. Returns undefined if the
+   * spreadsheet has no Holidays sheet.
+   */
+  private static readHolidays(): Date[]|undefined {
+    const sheetCache =
+        Config.createOptionalSheetCache(Config.HOLIDAYS_SHEET_NAME);
+    if (!sheetCache) return undefined;
+
+    const dateColumn =
+        SSLib.JasSpreadsheet.findColumnInCache('date', sheetCache);
+    return sheetCache.data.slice(sheetCache.headerRow)
+        .filter(rowData => !rowData[dateColumn].isBlank())
+        .map(rowData => rowData[dateColumn].date());
+  }
+
+  /**
+   * Reads the 'name', 'amount', 'frequency' and 'day' columns of the Charges
+   * sheet. Returns undefined if the spreadsheet has no Charges sheet.
+   */
+  private static readCharges(): RecurringCharge[]|undefined {
+    const sheetCache =
+        Config.createOptionalSheetCache(Config.CHARGES_SHEET_NAME);
+    if (!sheetCache) return undefined;
+
+    const findColumn = (name: string) =>
+        SSLib.JasSpreadsheet.findColumnInCache(name, sheetCache);
+    const nameColumn = findColumn('name');
+    const amountColumn = findColumn('amount');
+    const frequencyColumn = findColumn('frequency');
+    const dayColumn = findColumn('day');
+
+    const charges: RecurringCharge[] = [];
+    // The number of frozen rows is also the 0-based index of the first data
+    // row.
+    for (let row = sheetCache.headerRow; row < sheetCache.data.length; row++) {
+      const rowData = sheetCache.data[row];
+      if (rowData[nameColumn].isBlank()) continue;
+      charges.push({
+        name: rowData[nameColumn].string(),
+        amount: rowData[amountColumn].number(),
+        frequency: rowData[frequencyColumn].string().trim().toLowerCase() as
+            ChargeFrequency,
+        dayOfMonth: Config.readDayOfMonth(rowData[dayColumn]),
+      });
+    }
+    return charges;
+  }
+
+  /**
+   * Reads the Custom parsers section of the Config sheet. Unlike other fields,
+   * its rows may repeat: each 'custom parser sender' row starts a parser, and
+   * the subject keyword and amount regex rows below it belong to that parser.
+   */
+  private static readCustomParsers(sheetCache: SheetCache, valueColumn: number):
+      CustomParserConfig[] {
+    const F = Config.FIELD;
+    const customParsers: CustomParserConfig[] = [];
+    for (const rowData of sheetCache.data) {
+      const labels = Config.getLabels(rowData, valueColumn);
+      const value = rowData[valueColumn].string('').trim();
+      const current = customParsers[customParsers.length - 1];
+      if (labels.includes(F.customParser_sender)) {
+        customParsers.push(
+            {sender: value, subjectKeyword: '', amountRegex: ''});
+      } else if (labels.includes(F.customParser_subjectKeyword)) {
+        if (!current && value) {
+          throw new Error(
+              'Custom parser subject keyword needs a sender above it in Config.');
+        }
+        if (current) current.subjectKeyword = value;
+      } else if (labels.includes(F.customParser_amountRegex)) {
+        if (!current && value) {
+          throw new Error(
+              'Custom parser amount regex needs a sender above it in Config.');
+        }
+        if (current) current.amountRegex = value;
+      }
+    }
+    // Blank sections are left in the template for owners to fill in.
+    return customParsers.filter(
+        p => p.sender || p.subjectKeyword || p.amountRegex);
+  }
+
+  /**
+   * Returns the labels left of the value column of a Config row, trimmed and in
+   * lower case like the FIELD keys.
+   */
+  private static getLabels(rowData: SSLib.CellData[], valueColumn: number):
+      string[] {
+    return rowData.slice(0, valueColumn)
+        .map(cellData => cellData.string('').trim().toLowerCase());
+  }
+
+  /**
+   * Reads a day of the month, which may be "last day". Returns undefined if
+   * the cell is blank.
+   */
+  private static readDayOfMonth(cellData: SSLib.CellData): number|undefined {
+    if (cellData.isBlank()) return undefined;
+    return Util.parseDayOfMonth(cellData.untypedData());
+  }
+
+  /** Returns undefined if the client spreadsheet has no such sheet. */
+  private static createOptionalSheetCache(sheetName: string): SheetCache
+      |undefined {
+    const sheet =
+        SSLib.JasSpreadsheet.getSpreadsheet(_JasLibContext.spreadsheetId)
+            .getSheetByName(sheetName);
+    return sheet ? SSLib.JasSpreadsheet.createSheetCache(sheet) : undefined;
+  }
+
   static validate(config: ConfigParams = Config.get()): ConfigParams {
     if (!config.rentConfig && !config.loanConfig) {
       throw new Error('No renter or borrower config defined.');
@@ -100,13 +381,44 @@ export default class Config {
     }
 
     if (config.rentConfig) {
-      Util.validateRecurringDayOfMonth(config.rentConfig.dueDayOfMonth);
+      if (config.rentConfig.dueSchedule) {
+        Config.validateSchedule(config.rentConfig.dueSchedule);
+      } else {
+        Util.validateRecurringDayOfMonth(config.rentConfig.dueDayOfMonth);
+      }
+      const {businessDayPolicy} = config.rentConfig;
+      if (businessDayPolicy !== undefined &&
+          !Config.BUSINESS_DAY_POLICIES.some(p => p === businessDayPolicy)) {
+        throw new Error(`Expected a business day policy in [${
+            Config.BUSINESS_DAY_POLICIES.join(
+                ', ')}]. Got ${businessDayPolicy}.`);
+      }
+      const {reminderDays} = config.rentConfig;
+      if (reminderDays !== undefined &&
+          (!Number.isInteger(reminderDays) || reminderDays < 1)) {
+        throw new Error(
+            `Rent reminder days must be a whole number of at least 1. Got ${
+                reminderDays}.`);
+      }
       if (config.rentConfig.monthlyAmount < 0) {
         throw new Error('Illegal negative rent.');
       }
+      if (config.rentConfig.lateFee) {
+        Config.validateLateFee(config.rentConfig.lateFee);
+      }
+      if (config.rentConfig.escalation) {
+        Config.validateEscalation(config.rentConfig.escalation);
+      }
+      const {leaseStartDate, leaseEndDate} = config.rentConfig;
+      if (leaseStartDate && leaseEndDate &&
+          Util.getDayStart(leaseEndDate) < Util.getDayStart(leaseStartDate)) {
+        throw new Error('Lease end date must not be before the start date.');
+      }
     }
     if (config.loanConfig) {
-      if (config.loanConfig.interestRate) {
+      if (config.loanConfig.interestSchedule) {
+        Config.validateSchedule(config.loanConfig.interestSchedule);
+      } else if (config.loanConfig.interestRate) {
         if (config.loanConfig.interestDayOfMonth === undefined) {
           throw new Error(
               'Loans must have an interest day unless they are 0-interest loans.');
@@ -120,6 +432,29 @@ export default class Config {
       if (config.loanConfig.defaultPayment < 0) {
         throw new Error('Illegal negative default payment.');
       }
+      if (config.loanConfig.term) {
+        Config.validateLoanTerm(config.loanConfig.term);
+      }
+      for (const {effectiveDate, rate} of config.loanConfig.rateHistory ?? []) {
+        if (rate < 0 || rate > 1) {
+          throw new Error(`Interest rate must be between 0 and 1. Got ${
+              rate} effective ${effectiveDate.toDateString()}.`);
+        }
+      }
+      if (config.loanConfig.interestMethod &&
+          !Config.INTEREST_METHODS.some(
+              method => method === config.loanConfig.interestMethod)) {
+        throw new Error(`Expected a loan interest method in [${
+            Config.INTEREST_METHODS.join(
+                ', ')}]. Got ${config.loanConfig.interestMethod}.`);
+      }
+    }
+
+    for (const charge of config.charges ?? []) {
+      Config.validateCharge(charge);
+    }
+    for (const customParser of config.customParsers ?? []) {
+      Config.validateCustomParser(customParser);
     }
 
     for (const paymentType of config.searchQuery.paymentTypes) {
@@ -156,6 +491,117 @@ export default class Config {
     return config;
   }
 
+  private static validateLateFee(lateFee: LateFeeConfig) {
+    const {graceDays, flatAmount, percentage, maxPerMonth} = lateFee;
+    if (!Number.isInteger(graceDays) || graceDays < 0) {
+      throw new Error('Late fee grace days must be a whole number, 0 or more.');
+    }
+    if ((flatAmount === undefined) === (percentage === undefined)) {
+      throw new Error(
+          'Late fee needs exactly one of a flat amount or a percentage.');
+    }
+    if (flatAmount !== undefined && flatAmount <= 0) {
+      throw new Error('Late fee flat amount must be positive.');
+    }
+    if (percentage !== undefined && (percentage <= 0 || percentage > 1)) {
+      throw new Error('Late fee percentage must be between 0 and 1.');
+    }
+    if (maxPerMonth !== undefined && maxPerMonth < 0) {
+      throw new Error('Illegal negative late fee maximum.');
+    }
+  }
+
+  private static validateCharge(charge: RecurringCharge) {
+    if (!charge.name) {
+      throw new Error('Recurring charges need a name.');
+    }
+    if (charge.amount <= 0) {
+      throw new Error(`Charge '${charge.name}' must have a positive amount.`);
+    }
+    if (!Config.CHARGE_FREQUENCIES.some(f => f === charge.frequency)) {
+      throw new Error(`Expected a charge frequency in [${
+          Config.CHARGE_FREQUENCIES.join(', ')}]. Got ${charge.frequency}.`);
+    }
+    Util.validateRecurringDayOfMonth(charge.dayOfMonth);
+  }
+
+  private static validateCustomParser(customParser: CustomParserConfig) {
+    const {sender, subjectKeyword, amountRegex} = customParser;
+    if (!sender) {
+      throw new Error('Custom parsers need a sender in Config.');
+    }
+    if (!subjectKeyword) {
+      throw new Error(
+          `Custom parser for '${sender}' needs a subject keyword in Config.`);
+    }
+    let regExp: RegExp;
+    try {
+      regExp = new RegExp(amountRegex);
+    } catch (e) {
+      throw new Error(
+          `Invalid amount regex for custom parser '${sender}': ${e.message}`);
+    }
+    // The empty alternative always matches, and the match still lists every
+    // named group of the regex.
+    const groups = new RegExp(`${regExp.source}|`).exec('').groups ?? {};
+    if (!('amount' in groups)) {
+      throw new Error(`Amount regex for custom parser '${
+          sender}' needs an (?<amount>...) capture group.`);
+    }
+  }
+
+  private static validateSchedule(schedule: ScheduleConfig) {
+    const {frequency, anchorDate} = schedule;
+    if (!Config.SCHEDULE_FREQUENCIES.some(f => f === frequency)) {
+      throw new Error(`Expected a schedule frequency in [${
+          Config.SCHEDULE_FREQUENCIES.join(', ')}]. Got ${frequency}.`);
+    }
+    if (!anchorDate) {
+      throw new Error(`A ${frequency} schedule needs an anchor date.`);
+    }
+    if (frequency === 'semimonthly' && anchorDate.getDate() > 14) {
+      throw new Error(
+          'Semimonthly schedules repeat 14 days after the anchor date, so the ' +
+          `anchor must be on day 1 to 14 of the month. Got ${
+              anchorDate.getDate()}.`);
+    }
+  }
+
+  private static validateEscalation(escalation: EscalationConfig) {
+    const {percentage, amount, anniversaryDate, noticeDays} = escalation;
+    if ((percentage === undefined) === (amount === undefined)) {
+      throw new Error(
+          'Rent escalation needs exactly one of a percentage or an amount.');
+    }
+    if (percentage !== undefined && (percentage <= 0 || percentage > 1)) {
+      throw new Error('Rent escalation percentage must be between 0 and 1.');
+    }
+    if (amount !== undefined && amount <= 0) {
+      throw new Error('Rent escalation amount must be positive.');
+    }
+    if (!anniversaryDate) {
+      throw new Error('Rent escalation needs an anniversary date.');
+    }
+    if (!Number.isInteger(noticeDays) || noticeDays < 1) {
+      throw new Error(
+          'Rent escalation notice days must be a whole number, 1 or more.');
+    }
+  }
+
+  private static validateLoanTerm(term: LoanTermConfig) {
+    const {principal, startDate, termMonths} = term;
+    if (principal === undefined || !startDate || termMonths === undefined) {
+      throw new Error(
+          'Fixed-term loans need an original principal, start date and term.');
+    }
+    if (principal <= 0) {
+      throw new Error('Loan original principal must be positive.');
+    }
+    if (!Number.isInteger(termMonths) || termMonths < 1) {
+      throw new Error('Loan term must be a whole number of months, 1 or more.');
+    }
+  }
+
   private static isEmail(s: string): boolean {
     return /\S+@\S+\.\S+/.test(s);
   }
@@ -243,16 +689,43 @@ export default class Config {
     loanConfig_defaultPayment: 'loan default payment',
     loanConfig_interestRate: 'loan interest rate',
     loanConfig_interestDayOfMonth: 'loan monthly interest day',
+    loanConfig_interestMethod: 'loan interest method',
+    loanConfig_interestFrequency: 'loan interest frequency',
+    loanConfig_interestAnchorDate: 'loan interest anchor date',
+    loanConfig_principal: 'loan original principal',
+    loanConfig_startDate: 'loan start date',
+    loanConfig_termMonths: 'loan term months',
     rentConfig_monthlyAmount: 'rent monthly amount',
     rentConfig_dueDayOfMonth: 'rent monthly due day',
+    rentConfig_dueFrequency: 'rent due frequency',
+    rentConfig_dueAnchorDate: 'rent due anchor date',
+    rentConfig_reminderDays: 'rent reminder days',
+    rentConfig_businessDayPolicy: 'rent business day policy',
+    rentConfig_escalationPercentage: 'rent escalation percentage',
+    rentConfig_escalationAmount: 'rent escalation amount',
+    rentConfig_escalationAnniversaryDate: 'rent escalation anniversary',
+    rentConfig_escalationNoticeDays: 'rent escalation notice days',
+    rentConfig_leaseStartDate: 'rent lease start date',
+    rentConfig_leaseEndDate: 'rent lease end date',
+    rentConfig_lateFeeGraceDays: 'rent late fee grace days',
+    rentConfig_lateFeeFlatAmount: 'rent late fee flat amount',
+    rentConfig_lateFeePercentage: 'rent late fee percentage',
+    rentConfig_lateFeeMaxPerMonth: 'rent late fee max per month',
     searchQuery_labelName: 'gmail label name',
     searchQuery_paymentTypes: 'payment types',
     searchQuery_searchName: 'gmail search name',
+    customParser_sender: 'custom parser sender',
+    customParser_subjectKeyword: 'custom parser subject keyword',
+    customParser_amountRegex: 'custom parser amount regex',
   };
 }
 
 // Keep in sync with FIELD above.
 export interface ConfigParams {
+  /** From the Charges sheet, not the Config sheet. */
+  charges?: RecurringCharge[];
+  /** From the Custom parsers section, whose rows may repeat. */
+  customParsers?: CustomParserConfig[];
   customerDisplayName: string;
   customerEmails: string[];
   emailCCs: string[];
@@ -265,15 +738,122 @@ export interface ConfigParams {
   searchQuery: SearchQuery;
 }
 
-interface RentConfig {
+/**
+ * A charge posted on a day of the month, in every month or in the first month
+ * of every quarter.
+ */
+export interface RecurringCharge {
+  name: string;
+  amount: number;
+  frequency: ChargeFrequency;
+  dayOfMonth: number;
+}
+
+/**
+ * A payment email that no built-in parser understands, like one from a small
+ * credit union. See PaymentParsers.fromCustomParser.
+ */
+export interface CustomParserConfig {
+  /** Matched against the From header, ignoring case. */
+  sender: string;
+  /** Must appear in the subject, ignoring case. */
+  subjectKeyword: string;
+  /**
+   * Matched against the plain-text body. Captures the amount in `amount`, and
+   * may also capture `payer`, `date` and `ref`, like the built-in parsers.
+   */
+  amountRegex: string;
+}
+
+export interface RentConfig {
+  /**
+   * The rent per month. Other due schedules charge the same amount per year,
+   * like 12/26 of it every other week. See Rent.getPeriodAmount.
+   */
   monthlyAmount: number;
-  dueDayOfMonth: number;
+  /** Ignored if there is a due schedule. */
+  dueDayOfMonth?: number;
+  dueSchedule?: ScheduleConfig;
+  /** How many days before a due date the tenant is emailed a reminder. */
+  reminderDays?: number;
+  /**
+   * How due dates on weekends and holidays move. Rent is still posted on the
+   * scheduled date, but reminders, late fees and the status cell use the
+   * moved date.
+   */
+  businessDayPolicy?: BusinessDayPolicy;
+  /** From the Holidays sheet. Replaces the US federal holidays. */
+  holidays?: Date[];
+  lateFee?: LateFeeConfig;
+  escalation?: EscalationConfig;
+  /** Rent is prorated for the partial month the lease starts in, if any. */
+  leaseStartDate?: Date;
+  /**
+   * The last day of the lease. No rent is charged after it, and the last
+   * partial month is prorated.
+   */
+  leaseEndDate?: Date;
+}
+
+/**
+ * A yearly rent increase, by either a percentage or a fixed amount. The first
+ * increase is on the anniversary date, and then every year on the same date.
+ */
+export interface EscalationConfig {
+  percentage?: number;
+  amount?: number;
+  anniversaryDate: Date;
+  /** How many days ahead the tenant is emailed about an increase. */
+  noticeDays: number;
+}
+
+/**
+ * A fee charged when rent is still unpaid after the grace period. Either a flat
+ * amount or a percentage of the unpaid balance.
+ */
+export interface LateFeeConfig {
+  /** Days after the due date during which no fee is charged. */
+  graceDays: number;
+  flatAmount?: number;
+  percentage?: number;
+  maxPerMonth?: number;
 }
 
-interface LoanConfig {
+export interface LoanConfig {
   defaultPayment?: number;
   interestRate: number;
+  /** Ignored if there is an interest schedule. */
   interestDayOfMonth?: number;
+  interestSchedule?: ScheduleConfig;
+  interestMethod?: InterestMethod;
+  /**
+   * Changes to the interest rate, oldest first. Before the first change, the
+   * rate is `interestRate`.
+   */
+  rateHistory?: RateChange[];
+  term?: LoanTermConfig;
+}
+
+/** See Schedule. */
+export interface ScheduleConfig {
+  frequency: ScheduleFrequency;
+  /** A date the schedule falls on. The other dates repeat from it. */
+  anchorDate: Date;
+}
+
+export interface RateChange {
+  effectiveDate: Date;
+  rate: number;
+}
+
+/**
+ * The original terms of a loan that is paid off in a fixed number of equal
+ * monthly payments. The first payment is due a month after the start date.
+ */
+export interface LoanTermConfig {
+  principal: number;
+  startDate: Date;
+  termMonths: number;
 }
 
 interface SearchQuery {
@@ -282,5 +862,9 @@ interface SearchQuery {
   searchName: string;
 }
 
+export type ChargeFrequency = typeof Config.CHARGE_FREQUENCIES[number];
+export type InterestMethod = typeof Config.INTEREST_METHODS[number];
+export type BusinessDayPolicy = typeof Config.BUSINESS_DAY_POLICIES[number];
+export type ScheduleFrequency = typeof Config.SCHEDULE_FREQUENCIES[number];
 export type ConfigField = keyof typeof Config.FIELD;
 export type PaymentType = keyof typeof Config.PaymentTypeStrings;
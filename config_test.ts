@@ -1,7 +1,8 @@
 import {JASLib} from 'jas_api';
 import {SSLib} from 'ss_api';
 
-import Config, {ConfigField, ConfigParams} from './config';
+import Util from './_util';
+import Config, {BusinessDayPolicy, ChargeFrequency, ConfigField, ConfigParams, CustomParserConfig, EscalationConfig, InterestMethod, LateFeeConfig, LoanTermConfig, RecurringCharge, ScheduleConfig, ScheduleFrequency} from './config';
 import Tester from './testing/tester';
 
 
@@ -9,6 +10,9 @@ import Tester from './testing/tester';
 type Range = GoogleAppsScript.Spreadsheet.Range;
 
 export default class ConfigTest implements JASLib.Test {
+  /** Stored in place of the value of a row that the test added. */
+  private static readonly APPENDED_ROW = {};
+
   private storedConfigValues: Map<string, unknown[]> = new Map();
 
   private readonly configSheet =
@@ -23,19 +27,44 @@ export default class ConfigTest implements JASLib.Test {
     }
 
     t.beforeAll(() => {
-      const row = SSLib.JasSpreadsheet.findRow(configName, this.configSheet);
-      const range = this.configSheet.getRange(row, this.valueColumn);
-      this.storedConfigValues.get(configName).push(range.getValue());
-      replaceFn(range);
+      let row = this.findConfigRow(configName);
+      if (row === null) {
+        // The test spreadsheet may be older than an optional field.
+        const rowValues = new Array(this.valueColumn).fill('');
+        rowValues[this.valueColumn - 2] = configName;
+        this.configSheet.appendRow(rowValues);
+        row = this.configSheet.getLastRow();
+        this.storedConfigValues.get(configName).push(ConfigTest.APPENDED_ROW);
+      } else {
+        this.storedConfigValues.get(configName)
+            .push(this.configSheet.getRange(row, this.valueColumn).getValue());
+      }
+      replaceFn(this.configSheet.getRange(row, this.valueColumn));
     });
 
     t.afterAll(() => {
-      const row = SSLib.JasSpreadsheet.findRow(configName, this.configSheet);
-      const range = this.configSheet.getRange(row, this.valueColumn);
-      range.setValue(this.storedConfigValues.get(configName).pop());
+      const row = this.findConfigRow(configName);
+      const storedValue = this.storedConfigValues.get(configName).pop();
+      if (storedValue === ConfigTest.APPENDED_ROW) {
+        this.configSheet.deleteRow(row);
+      } else {
+        this.configSheet.getRange(row, this.valueColumn).setValue(storedValue);
+      }
     });
   }
 
+  /** Returns the row of `configName`, or null if the sheet has none. */
+  private findConfigRow(configName: string): number|null {
+    const labels =
+        this.configSheet
+            .getRange(1, 1, this.configSheet.getLastRow(), this.valueColumn - 1)
+            .getValues();
+    const index = labels.findIndex(
+        rowLabels => rowLabels.some(
+            label => String(label).trim().toLowerCase() === configName));
+    return index === -1 ? null : index + 1;
+  }
+
   private setValue(t: Tester, configName: ConfigField, value: unknown) {
     this.replaceConfigValue(t, configName, (r: Range) => {
       if (Array.isArray(value)) value = value.join(', ');
@@ -68,6 +97,57 @@ export default class ConfigTest implements JASLib.Test {
             t, F.searchQuery_paymentTypes, c.searchQuery.paymentTypes);
         this.setValue(t, F.searchQuery_searchName, c.searchQuery.searchName);
 
+        // Optional fields are cleared when the config doesn't have them.
+        const setOptionalValue = (configName: ConfigField, value: unknown) =>
+            value === undefined ? this.clearValue(t, configName) :
+                                  this.setValue(t, configName, value);
+        const {rentConfig, loanConfig} = c;
+        setOptionalValue(
+            F.rentConfig_dueFrequency, rentConfig?.dueSchedule?.frequency);
+        setOptionalValue(
+            F.rentConfig_dueAnchorDate, rentConfig?.dueSchedule?.anchorDate);
+        setOptionalValue(F.rentConfig_reminderDays, rentConfig?.reminderDays);
+        setOptionalValue(
+            F.rentConfig_businessDayPolicy, rentConfig?.businessDayPolicy);
+        setOptionalValue(
+            F.rentConfig_escalationPercentage,
+            rentConfig?.escalation?.percentage);
+        setOptionalValue(
+            F.rentConfig_escalationAmount, rentConfig?.escalation?.amount);
+        setOptionalValue(
+            F.rentConfig_escalationAnniversaryDate,
+            rentConfig?.escalation?.anniversaryDate);
+        setOptionalValue(
+            F.rentConfig_escalationNoticeDays,
+            rentConfig?.escalation?.noticeDays);
+        setOptionalValue(
+            F.rentConfig_leaseStartDate, rentConfig?.leaseStartDate);
+        setOptionalValue(F.rentConfig_leaseEndDate, rentConfig?.leaseEndDate);
+        setOptionalValue(
+            F.rentConfig_lateFeeGraceDays, rentConfig?.lateFee?.graceDays);
+        setOptionalValue(
+            F.rentConfig_lateFeeFlatAmount, rentConfig?.lateFee?.flatAmount);
+        setOptionalValue(
+            F.rentConfig_lateFeePercentage, rentConfig?.lateFee?.percentage);
+        setOptionalValue(
+            F.rentConfig_lateFeeMaxPerMonth, rentConfig?.lateFee?.maxPerMonth);
+        setOptionalValue(
+            F.loanConfig_interestMethod, loanConfig?.interestMethod);
+        setOptionalValue(
+            F.loanConfig_interestFrequency,
+            loanConfig?.interestSchedule?.frequency);
+        setOptionalValue(
+            F.loanConfig_interestAnchorDate,
+            loanConfig?.interestSchedule?.anchorDate);
+        setOptionalValue(F.loanConfig_principal, loanConfig?.term?.principal);
+        setOptionalValue(F.loanConfig_startDate, loanConfig?.term?.startDate);
+        setOptionalValue(F.loanConfig_termMonths, loanConfig?.term?.termMonths);
+        const [customParser] = c.customParsers ?? [];
+        setOptionalValue(F.customParser_sender, customParser?.sender);
+        setOptionalValue(
+            F.customParser_subjectKeyword, customParser?.subjectKeyword);
+        setOptionalValue(F.customParser_amountRegex, customParser?.amountRegex);
+
         if (c.loanConfig) {
           this.setValue(
               t, F.loanConfig_defaultPayment, c.loanConfig.defaultPayment);
@@ -92,6 +172,52 @@ export default class ConfigTest implements JASLib.Test {
       const configSpecs = [
         {name: 'loan', config: Config.getLoanConfigForTest()},
         {name: 'rent', config: Config.getRentConfigForTest()},
+        {
+          name: 'loan with optional fields',
+          config: Config.getLoanConfigForTest(undefined, {
+            loanConfig: {
+              interestMethod: 'daily accrual',
+              interestSchedule: {
+                frequency: 'biweekly',
+                anchorDate: new Date(2020, 0, 3),
+              },
+              term: {
+                principal: 10000,
+                startDate: new Date(2020, 0, 1),
+                termMonths: 24,
+              },
+            },
+          }),
+        },
+        {
+          name: 'rent with optional fields',
+          config: Config.getRentConfigForTest(
+              {
+                customParsers: [{
+                  sender: 'alerts@smallcu.org',
+                  subjectKeyword: 'Deposit received',
+                  amountRegex: 'deposit of \\$(?<amount>[0-9,.]+)',
+                }],
+              },
+              {
+                rentConfig: {
+                  dueSchedule: {
+                    frequency: 'monthly',
+                    anchorDate: new Date(2020, 0, 15),
+                  },
+                  reminderDays: 3,
+                  businessDayPolicy: 'next business day',
+                  escalation: {
+                    percentage: 0.03,
+                    anniversaryDate: new Date(2021, 0, 1),
+                    noticeDays: 60,
+                  },
+                  leaseStartDate: new Date(2020, 0, 1),
+                  leaseEndDate: new Date(2021, 11, 31),
+                  lateFee: {graceDays: 5, flatAmount: 50, maxPerMonth: 100},
+                },
+              }),
+        },
       ];
 
       for (const {name, config} of configSpecs) {
@@ -151,9 +277,13 @@ export default class ConfigTest implements JASLib.Test {
 
       t.it('day of month too high', () => {
         t.expect(() => Config.getLoanConfigForTest(undefined, {
-           loanConfig: {interestDayOfMonth: 29}
+           loanConfig: {interestDayOfMonth: 32}
          })).toThrow('Day of month');
 
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           loanConfig: {interestDayOfMonth: 31}
+         })).not.toThrow();
+
         t.expect(() => Config.getRentConfigForTest(undefined, {
            rentConfig: {dueDayOfMonth: 100}
          })).toThrow('Day of month');
@@ -169,10 +299,247 @@ export default class ConfigTest implements JASLib.Test {
          })).toThrow('Interest rate');
       });
 
+      t.it('invalid rate in rate history', () => {
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           loanConfig: {
+             rateHistory: [{effectiveDate: new Date(2020, 0, 1), rate: 4.5}],
+           },
+         })).toThrow('Interest rate must be between 0 and 1');
+
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           loanConfig: {
+             rateHistory: [{effectiveDate: new Date(2020, 0, 1), rate: 0.045}],
+           },
+         })).not.toThrow();
+      });
+
+      t.it('invalid interest method', () => {
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           loanConfig: {interestMethod: 'weekly' as InterestMethod},
+         })).toThrow('Expected a loan interest method');
+
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           loanConfig: {interestMethod: 'daily accrual'},
+         })).not.toThrow();
+      });
+
+      t.it('invalid loan term', () => {
+        const withTerm = (term: Partial<LoanTermConfig>) => () =>
+            Config.getLoanConfigForTest(undefined, {
+              loanConfig: {
+                term: {
+                  principal: 10000,
+                  startDate: new Date(2020, 0, 1),
+                  termMonths: 36,
+                  ...term,
+                },
+              },
+            });
+
+        t.expect(withTerm({
+           principal: undefined
+         })).toThrow('need an original principal, start date and term');
+        t.expect(withTerm({
+           startDate: undefined
+         })).toThrow('need an original principal, start date and term');
+        t.expect(withTerm({principal: 0})).toThrow('must be positive');
+        t.expect(withTerm({termMonths: 0})).toThrow('whole number of months');
+        t.expect(withTerm({termMonths: 2.5})).toThrow('whole number of months');
+
+        t.expect(withTerm({})).not.toThrow();
+      });
+
+      t.it('invalid rent escalation', () => {
+        const withEscalation = (escalation: Partial<EscalationConfig>) => () =>
+            Config.getRentConfigForTest(undefined, {
+              rentConfig: {
+                escalation: {
+                  percentage: 0.03,
+                  anniversaryDate: new Date(2020, 6, 1),
+                  noticeDays: 30,
+                  ...escalation,
+                },
+              },
+            });
+
+        t.expect(withEscalation({
+           amount: 50
+         })).toThrow('exactly one of a percentage or an amount');
+        t.expect(withEscalation({
+           percentage: 3
+         })).toThrow('percentage must be between 0 and 1');
+        t.expect(withEscalation({percentage: undefined, amount: -50}))
+            .toThrow('amount must be positive');
+        t.expect(withEscalation({
+           anniversaryDate: undefined
+         })).toThrow('needs an anniversary date');
+        t.expect(withEscalation({noticeDays: 0})).toThrow('notice days');
+
+        t.expect(withEscalation({})).not.toThrow();
+      });
+
+      t.it('lease end before start', () => {
+        t.expect(() => Config.getRentConfigForTest(undefined, {
+           rentConfig: {
+             leaseStartDate: new Date(2020, 6, 1),
+             leaseEndDate: new Date(2020, 5, 30),
+           },
+         })).toThrow('Lease end date must not be before the start date');
+
+        t.expect(() => Config.getRentConfigForTest(undefined, {
+           rentConfig: {
+             leaseStartDate: new Date(2020, 6, 1),
+             leaseEndDate: new Date(2020, 6, 1),
+           },
+         })).not.toThrow();
+      });
+
+      t.it('invalid late fee', () => {
+        const withLateFee = (lateFee: Partial<LateFeeConfig>) => () =>
+            Config.getRentConfigForTest(undefined, {
+              rentConfig: {lateFee: {graceDays: 5, flatAmount: 50, ...lateFee}},
+            });
+
+        t.expect(withLateFee({graceDays: -1})).toThrow('grace days');
+        t.expect(withLateFee({graceDays: 1.5})).toThrow('grace days');
+        t.expect(withLateFee({
+           percentage: 0.05
+         })).toThrow('exactly one of a flat amount or a percentage');
+        t.expect(withLateFee({
+           flatAmount: undefined
+         })).toThrow('exactly one of a flat amount or a percentage');
+        t.expect(withLateFee({flatAmount: 0})).toThrow('must be positive');
+        t.expect(withLateFee({flatAmount: undefined, percentage: 5}))
+            .toThrow('percentage must be between 0 and 1');
+        t.expect(withLateFee({
+           maxPerMonth: -10
+         })).toThrow('negative late fee maximum');
+
+        t.expect(withLateFee({})).not.toThrow();
+        t.expect(withLateFee({
+           flatAmount: undefined,
+           percentage: 0.05,
+           maxPerMonth: 100,
+         })).not.toThrow();
+      });
+
+      t.it('invalid schedule', () => {
+        const withSchedule = (dueSchedule: Partial<ScheduleConfig>) => () =>
+            Config.getRentConfigForTest(undefined, {
+              rentConfig: {
+                dueSchedule: {
+                  frequency: 'biweekly',
+                  anchorDate: new Date(2020, 0, 10),
+                  ...dueSchedule,
+                },
+              },
+            });
+
+        t.expect(withSchedule({
+           frequency: 'daily' as ScheduleFrequency
+         })).toThrow('Expected a schedule frequency');
+        t.expect(withSchedule({
+           anchorDate: undefined
+         })).toThrow('needs an anchor date');
+        t.expect(withSchedule({
+           frequency: 'semimonthly',
+           anchorDate: new Date(2020, 0, 15),
+         })).toThrow('day 1 to 14');
+
+        t.expect(withSchedule({})).not.toThrow();
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           loanConfig: {
+             interestDayOfMonth: undefined,
+             interestSchedule: {
+               frequency: 'weekly',
+               anchorDate: new Date(2020, 0, 10),
+             },
+           },
+         })).not.toThrow();
+      });
+
+      t.it('invalid business day policy', () => {
+        t.expect(() => Config.getRentConfigForTest(undefined, {
+           rentConfig: {businessDayPolicy: 'weekdays' as BusinessDayPolicy},
+         })).toThrow('Expected a business day policy');
+
+        t.expect(() => Config.getRentConfigForTest(undefined, {
+           rentConfig: {businessDayPolicy: 'next business day'},
+         })).not.toThrow();
+      });
+
+      t.it('invalid rent reminder days', () => {
+        const withReminderDays = (reminderDays: number) => () =>
+            Config.getRentConfigForTest(
+                undefined, {rentConfig: {reminderDays}});
+
+        t.expect(withReminderDays(0)).toThrow('Rent reminder days');
+        t.expect(withReminderDays(2.5)).toThrow('Rent reminder days');
+        t.expect(withReminderDays(3)).not.toThrow();
+      });
+
+      t.it('invalid recurring charge', () => {
+        const withCharge = (charge: Partial<RecurringCharge>) => () =>
+            Config.getRentConfigForTest({
+              charges: [{
+                name: 'Parking',
+                amount: 40,
+                frequency: 'monthly',
+                dayOfMonth: 5,
+                ...charge,
+              }],
+            });
+
+        t.expect(withCharge({name: ''})).toThrow('need a name');
+        t.expect(withCharge({amount: 0})).toThrow('positive amount');
+        t.expect(withCharge({
+           frequency: 'yearly' as ChargeFrequency
+         })).toThrow('Expected a charge frequency');
+        t.expect(withCharge({dayOfMonth: 0})).toThrow('Day of month');
+        t.expect(withCharge({dayOfMonth: 32})).toThrow('Day of month');
+
+        t.expect(withCharge({})).not.toThrow();
+        t.expect(withCharge({frequency: 'quarterly'})).not.toThrow();
+        t.expect(withCharge({dayOfMonth: 29})).not.toThrow();
+        t.expect(withCharge({dayOfMonth: 30})).not.toThrow();
+        t.expect(withCharge({dayOfMonth: 31})).not.toThrow();
+        t.expect(withCharge({
+           dayOfMonth: Util.parseDayOfMonth('last day')
+         })).not.toThrow();
+      });
+
+      t.it('invalid custom parser', () => {
+        const withCustomParser = (customParser: Partial<CustomParserConfig>) =>
+            () => Config.getRentConfigForTest({
+              customParsers: [{
+                sender: 'alerts@smallcu.org',
+                subjectKeyword: 'Deposit received',
+                amountRegex: 'amount of \\$(?<amount>[0-9,.]+)',
+                ...customParser,
+              }],
+            });
+
+        t.expect(withCustomParser({sender: ''})).toThrow('need a sender');
+        t.expect(withCustomParser({
+           subjectKeyword: ''
+         })).toThrow('needs a subject keyword');
+        t.expect(withCustomParser({
+           amountRegex: 'amount of \\$([0-9,.]+'
+         })).toThrow('Invalid amount regex');
+        t.expect(withCustomParser({
+           amountRegex: 'amount of \\$([0-9,.]+)'
+         })).toThrow('capture group');
+
+        t.expect(withCustomParser({})).not.toThrow();
+      });
+
       t.it('invalid payment types', () => {
         t.expect(() => Config.getLoanConfigForTest(undefined, {
-           searchQuery: {paymentTypes: ['Paypal']}
+           searchQuery: {paymentTypes: ['Bitcoin']}
          })).toThrow('Expected a payment type');
+        t.expect(() => Config.getLoanConfigForTest(undefined, {
+           searchQuery: {paymentTypes: ['Cash App', 'PayPal', 'ACH']}
+         })).not.toThrow();
       });
 
       t.it('no search query name', () => {
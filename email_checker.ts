@@ -1,7 +1,12 @@
+import {SSLib} from 'ss_api';
+
+import Util from './_util';
 import BalanceSheet from './balance_sheet';
 import ClientSheetManager from './client_sheet_manager';
-import Config, {PaymentType} from './config';
+import Config from './config';
 import EmailSender from './email_sender';
+import PaymentParsers from './payment_parsers';
+import Rent from './rent';
 
 type GmailLabel = GoogleAppsScript.Gmail.GmailLabel;
 type GmailMessage = GoogleAppsScript.Gmail.GmailMessage;
@@ -22,13 +27,6 @@ export default class EmailChecker {
   // 30 days
   private static readonly STORAGE_MESSAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
-  /** The first match in the RE must be the deposit amount. */
-  static readonly PARSERS = new Map<PaymentType, EmailParser>([
-    ['Test', EmailChecker.parseTestMessage],
-    ['Venmo', EmailChecker.parseVenmoMessage],
-    ['Zelle', EmailChecker.parseZelleMessage],
-  ]);
-
   /** Checks labeled emails against all client sheets sheet for payments. */
   static checkEmails(whichSheets: 'allSheets'|'currentSheet') {
     // Threads that are manually labeled as payment threads.
@@ -111,10 +109,17 @@ export default class EmailChecker {
       parsedMessageIds: Map<string, ParsedMessage>,
       queriedThreadIds = new Set<string>()): Set<string> {
     const config = Config.get();
-    const defaultPaymentAmount =
-        config.rentConfig?.monthlyAmount || config.loanConfig?.defaultPayment;
+    const defaultPaymentAmount = config.rentConfig ?
+        Rent.getPeriodAmount(config.rentConfig, BalanceSheet.getToday()) :
+        config.loanConfig?.defaultPayment;
+
+    const descriptors = PaymentParsers.getDescriptors(
+        config.searchQuery.paymentTypes, config.customParsers);
+    if (!descriptors.length) return new Set();
 
-    if (!config.searchQuery.paymentTypes.length) return new Set();
+    const timeZone =
+        SSLib.JasSpreadsheet.getSpreadsheet(_JasLibContext.spreadsheetId)
+            .getSpreadsheetTimeZone();
 
     if (!pendingLabel) {
       pendingLabel = EmailChecker.assertLabel(EmailChecker.PENDING_LABEL_NAME);
@@ -151,11 +156,11 @@ export default class EmailChecker {
         const id = message.getId();
         if (parsedMessageIds.has(id)) continue;
 
-        for (const paymentType of config.searchQuery.paymentTypes) {
-          const parser = EmailChecker.PARSERS.get(paymentType);
-          const paymentAmount = parser(message);
-
-          if (paymentAmount === null) continue;
+        for (const descriptor of descriptors) {
+          const parsedPayment = PaymentParsers.parse(
+              descriptor, message, config.searchQuery.searchName);
+          if (!parsedPayment) continue;
+          const paymentAmount = parsedPayment.amount;
 
           // Only process a queried thread if the payment amount is the same as
           // the default payment.
@@ -163,13 +168,21 @@ export default class EmailChecker {
             continue;
           }
 
-          // AS Date and JS Date are slightly different, so we cannot pass
-          // AS Date directly.
-          const paymentDate = new Date();
-          paymentDate.setTime(message.getDate().getTime());
+          const paymentDate = parsedPayment.date ??
+              EmailChecker.getMessageDate(message, timeZone);
 
-          BalanceSheet.addPayment(paymentAmount, paymentDate);
-          EmailSender.sendPaymentThanks(paymentAmount);
+          // The references guard against posting the same payment twice, for
+          // example when parsed message storage fails to update, or when two
+          // emails are about the same payment. Payments posted before
+          // reference ids were parsed only have the message id.
+          const references = [id];
+          if (parsedPayment.ref) {
+            references.push(`${descriptor.paymentType} ${parsedPayment.ref}`);
+          }
+          if (BalanceSheet.addPayment(
+                  paymentAmount, paymentDate, references, parsedPayment.note)) {
+            EmailSender.sendPaymentThanks(paymentAmount);
+          }
           Logger.log(`Processed email with subject: '${message.getSubject()}'`);
 
           try {
@@ -207,44 +220,16 @@ export default class EmailChecker {
     return idsOfParsedThreads;
   }
 
-  private static parseVenmoMessage(message: GmailMessage): number|null {
-    if (!message.getFrom().toLowerCase().includes('venmo')) return null;
-    const subjectRegEx = new RegExp(
-        Config.get().searchQuery.searchName +
-            '.* paid you \\$([0-9,]+(\.[0-9][0-9])?)',
-        'i');
-    const regExResult = subjectRegEx.exec(message.getSubject());
-    if (!regExResult) return null;
-    return Number(regExResult[1].replace(/,/g, '')) || null;
-  }
-
-  private static parseZelleMessage(message: GmailMessage): number|null {
-    if (!message.getFrom().toLowerCase().includes('ally')) return null;
-
-    if (!/payment|deposited|deposit/.test(message.getSubject())) return null;
-
-    const bodyRegEx = new RegExp(
-        'deposited.*\\$([0-9,]+(\.[0-9][0-9])?).*payment.*from ' +
-            Config.get().searchQuery.searchName,
-        'i');
-    const regExResult = bodyRegEx.exec(message.getPlainBody());
-    if (!regExResult) return null;
-    return Number(regExResult[1].replace(/,/g, '')) || null;
-  }
-
-  private static parseTestMessage(message: GmailMessage): number|null {
-    if (!message.getFrom().toLowerCase().includes('jaoguntebi@gmail.com')) {
-      return null;
-    }
-    if (!message.getSubject().includes('AS Lease Lib Test Payment')) {
-      return null;
-    }
-
-    const bodyRegEx =
-        new RegExp('Payment\ amount:\ \\$([0-9,]+(\.[0-9][0-9])?)');
-    const regExResult = bodyRegEx.exec(message.getPlainBody());
-    if (!regExResult) return null;
-    return Number(regExResult[1].replace(/,/g, ''));
+  /**
+   * Returns the date of `message` in `timeZone`. An email sent at 2am in New
+   * York is dated the day before in a time zone further west.
+   */
+  private static getMessageDate(message: GmailMessage, timeZone: string): Date {
+    // AS Date and JS Date are slightly different, so we cannot pass AS Date
+    // directly.
+    const date = new Date();
+    date.setTime(message.getDate().getTime());
+    return Util.convertTimeZone(date, timeZone);
   }
 
   private static assertLabel(labelName: string): GmailLabel {
@@ -287,28 +272,16 @@ export default class EmailChecker {
   }
 
   static TEST_ONLY = {
+    getMessageDate: EmailChecker.getMessageDate,
     readParsedMessages: EmailChecker.readParsedMessages,
     STORAGE_MESSAGE_TTL_MS: EmailChecker.STORAGE_MESSAGE_TTL_MS,
   }
 
-  // Gmail query for threads that look like payment emails in the last hour.
-  // Excludes threads that have already been processed.
-  private static readonly RECENT_PAYMENTS_QUERY = `newer_than:1h (` +
-      [
-        // Zelle messages
-        `subject:(payment|deposited|deposit) zelle ` +
-            `("deposited your payment"|"deposited your zelle payment"|"into your account")`,
-        // Venmo messages
-        `from:venmo subject:"paid you"`,
-        // Test messages
-        `(subject:"AS Lease Lib Test Payment")`,
-      ].map(subquery => `(${subquery})`)
-          .join(` OR `) +
-      `)`;
+  /** See PaymentParsers.getRecentPaymentsQuery. */
+  private static readonly RECENT_PAYMENTS_QUERY =
+      PaymentParsers.getRecentPaymentsQuery();
 }
 
-type EmailParser = (message: GmailMessage) => number|null;
-
 interface ParsedMessage {
   id: string;
   timestamp: number;
@@ -143,7 +143,7 @@ export default class EmailCheckerTest implements JASLib.Test {
       t.spyOn(GmailApp, 'getUserLabelByName')
           .and.callFake(JASLib.FakeGmailApp.getUserLabelByName);
       t.spyOn(GmailApp, 'search').and.callFake(JASLib.FakeGmailApp.search);
-      t.spyOn(BalanceSheet, 'addPayment');
+      t.spyOn(BalanceSheet, 'addPayment').and.returnValue(true);
       t.spyOn(EmailSender, 'sendPaymentThanks');
 
       // Call the function with the test configs.
@@ -258,6 +258,27 @@ export default class EmailCheckerTest implements JASLib.Test {
       });
     });
 
+    t.describe('getMessageDate', () => {
+      // 2:43am in New York, and still the day before further west.
+      const message = {
+        getDate: () => new Date(Date.UTC(2024, 2, 5, 7, 43)),
+      } as unknown as GoogleAppsScript.Gmail.GmailMessage;
+
+      t.it('returns the date in the sheet\'s time zone', () => {
+        const date =
+            EmailChecker.TEST_ONLY.getMessageDate(message, 'America/New_York');
+        t.expect(date.getDate()).toBe(5);
+        t.expect(date.getHours()).toBe(2);
+      });
+
+      t.it('can be the day before the email was sent in New York', () => {
+        const date = EmailChecker.TEST_ONLY.getMessageDate(
+            message, 'America/Los_Angeles');
+        t.expect(date.getDate()).toBe(4);
+        t.expect(date.getHours()).toBe(23);
+      });
+    });
+
     t.xdescribe('checkEmails for current sheet', () => {
       type PaymentTypeSpec = {
         message: JASLib.GmailMessageParams,
@@ -601,6 +622,78 @@ export default class EmailCheckerTest implements JASLib.Test {
             t, {pending: 0, done: 0, doneAuto: 1, failed: 0});
       });
 
+      t.it('does not thank for a payment already in the balance sheet', () => {
+        const config = Config.getRentConfigForTest(undefined, {
+          searchQuery: {paymentTypes: ['Zelle']},
+        });
+        t.setConfig(config);
+        const message = this.createZelleMessage(config, 'defaultAmount');
+
+        // When the balance sheet already has the payment.
+        JASLib.Spy.assertSpy(BalanceSheet.addPayment).and.returnValue(false);
+        JASLib.FakeGmailApp.setSearchResults(
+            this.addCounterBasedIds([[message]]));
+        EmailChecker.checkEmails('currentSheet');
+
+        t.expect(BalanceSheet.addPayment)
+            .toHaveBeenCalledLike(t.matcher(
+                (args: unknown[]) =>
+                    Array.isArray(args[2]) && args[2][0] === 't0-m0'));
+        t.expect(EmailSender.sendPaymentThanks).not.toHaveBeenCalled();
+        this.expectLabelCounts(
+            t, {pending: 0, done: 0, doneAuto: 1, failed: 0});
+        JASLib.Spy.assertSpy(BalanceSheet.addPayment).and.returnValue(true);
+      });
+
+      t.it('uses the payment date stated in the email', () => {
+        t.setConfig(Config.getRentConfigForTest(
+            {
+              customParsers: [{
+                sender: 'alerts@smallcu.org',
+                subjectKeyword: 'Deposit',
+                amountRegex: 'deposit of \\$(?<amount>[0-9,.]+) on (?<date>.+)',
+              }],
+            },
+            {searchQuery: {paymentTypes: []}}));
+        setDataWithPendingMessages([[{
+          subject: 'Deposit received',
+          from: 'alerts@smallcu.org',
+          plainBody: 'We received a deposit of $3,600.00 on March 5, 2024\n' +
+              'From: Gandalf\n',
+        }]]);
+        EmailChecker.checkEmails('currentSheet');
+
+        const paymentDate = new Date(2024, 2, 5);
+        t.expect(BalanceSheet.addPayment)
+            .toHaveBeenCalledLike(t.matcher(
+                (args: unknown[]) => args[0] === 3600 &&
+                    (args[1] as Date).getTime() === paymentDate.getTime()));
+        this.expectLabelCounts(t, {pending: 0, done: 1, failed: 0});
+      });
+
+      t.it('references the payment by message id and reference id', () => {
+        const config = Config.getRentConfigForTest(undefined, {
+          searchQuery: {paymentTypes: ['Venmo']},
+        });
+        t.setConfig(config);
+        const message = {
+          ...this.createVenmoMessage(config, 'defaultAmount'),
+          plainBody: 'Gandalf paid you $3,600.00\n\nMarch rent\n\n' +
+              'Transaction ID\n4012345678901234567\n',
+        };
+
+        JASLib.FakeGmailApp.setSearchResults(
+            this.addCounterBasedIds([[message]]));
+        EmailChecker.checkEmails('currentSheet');
+
+        t.expect(BalanceSheet.addPayment)
+            .toHaveBeenCalledLike(t.matcher(
+                (args: unknown[]) => Array.isArray(args[2]) &&
+                    args[2][0] === 't0-m0' &&
+                    args[2][1] === 'Venmo 4012345678901234567' &&
+                    args[3] === 'March rent'));
+      });
+
       t.it('processes messages for multiple client sheets', () => {
         const zelleMessages =
             SHEET_CONFIGS
@@ -1,6 +1,8 @@
 import Util from './_util';
 import BalanceSheet from './balance_sheet';
-import Config from './config';
+import Charges, {UpcomingCharge} from './charges';
+import Config, {ConfigParams} from './config';
+import Rent, {RentIncrease} from './rent';
 
 export default class EmailSender {
   static sendPaymentThanks(amount: number) {
@@ -19,11 +21,16 @@ export default class EmailSender {
       linkText: config.linkToSheetText,
       paymentAmount: Util.formatMoney(amount),
       customerDisplayName: config.customerDisplayName,
+      upcomingCharges: EmailSender.getUpcomingCharges(config),
     };
 
+    const upcomingText = templateParams.upcomingCharges.length ?
+        `\n\nUpcoming charges:\n${
+            templateParams.upcomingCharges.map(c => `- ${c}`).join('\n')}` :
+        '';
     const nonHtmlBody = `Thank you for your payment of ${
         templateParams.paymentAmount}. Your balance is now $${
-        templateParams.balance}.\n\nSee balance sheet: ${
+        templateParams.balance}.${upcomingText}\n\nSee balance sheet: ${
         templateParams.linkHref}`;
 
     const template =
@@ -40,6 +47,85 @@ export default class EmailSender {
         });
   }
 
+  static sendRentIncreaseNotice(increase: RentIncrease) {
+    const config = Config.get();
+
+    const templateParams: RentIncreaseEmailTemplateParams = {
+      customerDisplayName: config.customerDisplayName,
+      effectiveDate: Utilities.formatDate(
+          increase.date, Session.getScriptTimeZone(), 'MMMM d, yyyy'),
+      linkHref: config.linkToSheetHref,
+      linkText: config.linkToSheetText,
+      newAmount: Util.formatMoney(increase.newAmount),
+      previousAmount: Util.formatMoney(increase.previousAmount),
+    };
+
+    const nonHtmlBody = `Your monthly rent will change from ${
+        templateParams.previousAmount} to ${
+        templateParams.newAmount}, starting ${
+        templateParams.effectiveDate}.\n\nSee balance sheet: ${
+        templateParams.linkHref}`;
+
+    const template =
+        HtmlService.createTemplateFromFile('email_template_rent_increase');
+    template.templateParams = templateParams;
+
+    GmailApp.sendEmail(
+        config.customerEmails.join(', '), 'Upcoming rent increase', nonHtmlBody,
+        {
+          bcc: config.emailBCCs.join(', '),
+          cc: config.emailCCs.join(', '),
+          name: config.emailDisplayName,
+          htmlBody: template.evaluate().getContent(),
+        });
+  }
+
+  static sendRentReminder(upcoming: {amount: number; date: Date}) {
+    const config = Config.get();
+
+    const templateParams: RentReminderEmailTemplateParams = {
+      amount: Util.formatMoney(upcoming.amount),
+      balance: Util.formatMoney(BalanceSheet.getBalance()),
+      customerDisplayName: config.customerDisplayName,
+      dueDate: Utilities.formatDate(
+          upcoming.date, Session.getScriptTimeZone(), 'MMMM d, yyyy'),
+      linkHref: config.linkToSheetHref,
+      linkText: config.linkToSheetText,
+    };
+
+    const nonHtmlBody = `Rent of ${templateParams.amount} is due on ${
+        templateParams.dueDate}. Your balance is currently ${
+        templateParams.balance}.\n\nSee balance sheet: ${
+        templateParams.linkHref}`;
+
+    const template =
+        HtmlService.createTemplateFromFile('email_template_rent_reminder');
+    template.templateParams = templateParams;
+
+    GmailApp.sendEmail(
+        config.customerEmails.join(', '), 'Rent reminder', nonHtmlBody, {
+          bcc: config.emailBCCs.join(', '),
+          cc: config.emailCCs.join(', '),
+          name: config.emailDisplayName,
+          htmlBody: template.evaluate().getContent(),
+        });
+  }
+
+  /** Lists the next rent charge and recurring charges, soonest first. */
+  private static getUpcomingCharges(config: ConfigParams): string[] {
+    const today = BalanceSheet.getToday();
+    const upcoming = Charges.getUpcoming(config.charges ?? [], today);
+    const upcomingRent =
+        config.rentConfig && Rent.getUpcoming(config.rentConfig, today);
+    if (upcomingRent) upcoming.push({name: 'Rent', ...upcomingRent});
+
+    const describe = (charge: UpcomingCharge) =>
+        `${Util.formatMoney(charge.amount)} ${charge.name} due ${
+            Util.dateString(charge.date)}`;
+    return upcoming.sort((a, b) => a.date.getTime() - b.date.getTime())
+        .map(describe);
+  }
+
   static sendTestPaymentMessage(amount = 50) {
     const dayInMillis = 24 * 60 * 60 * 1000;
     const minSameThreadTime = Date.now() - dayInMillis;
@@ -62,4 +148,17 @@ export default class EmailSender {
 interface PaymentEmailTemplateParams {
   balance: string, balanceColor: string, customerDisplayName: string,
       linkHref: string, linkText: string, paymentAmount: string,
+      upcomingCharges: string[],
+}
+
+/** Keep in sync with email_template_rent_increase.html. */
+interface RentIncreaseEmailTemplateParams {
+  customerDisplayName: string, effectiveDate: string, linkHref: string,
+      linkText: string, newAmount: string, previousAmount: string,
+}
+
+/** Keep in sync with email_template_rent_reminder.html. */
+interface RentReminderEmailTemplateParams {
+  amount: string, balance: string, customerDisplayName: string, dueDate: string,
+      linkHref: string, linkText: string,
 }
@@ -138,6 +138,77 @@ export default class EmailSenderTest implements JASLib.Test {
           });
         });
       });
+      t.describe('upcoming charges', () => {
+        t.it('lists rent and recurring charges', () => {
+          t.setConfig(Config.getRentConfigForTest(
+              {
+                charges: [{
+                  name: 'Parking',
+                  amount: 40,
+                  frequency: 'monthly',
+                  dayOfMonth: 5,
+                }],
+              },
+              {rentConfig: {monthlyAmount: 1200}}));
+          EmailSender.sendPaymentThanks(1);
+
+          this.expectSentMailToContain(
+              t, ['Upcoming charges', '$1,200 Rent due', '$40 Parking due']);
+        });
+
+        t.it('lists nothing for loans without charges', () => {
+          t.setConfig(Config.getLoanConfigForTest());
+          EmailSender.sendPaymentThanks(1);
+
+          this.expectSendMailToHaveBeenCalledLike(
+              t, (params: SendEmailParameters) => {
+                t.expect(params[2]).not.toContain('Upcoming charges');
+                return true;
+              });
+        });
+      });
+    });
+
+    t.describe('rentIncreaseNotice', () => {
+      t.beforeAll(() => t.setConfig(Config.DEFAULT));
+
+      t.it('shows the old and new rent and when it changes', () => {
+        EmailSender.sendRentIncreaseNotice({
+          date: new Date(2021, 6, 1),
+          previousAmount: 1500,
+          newAmount: 1545,
+        });
+
+        this.expectSentMailToContain(t, ['$1,500', '$1,545', 'July 1, 2021']);
+        this.expectSendMailToHaveBeenCalledLike(
+            t, (params: SendEmailParameters) => {
+              t.expect(params[0]).toBe(
+                  Config.DEFAULT.customerEmails.join(', '));
+              t.expect(params[1]).toBe('Upcoming rent increase');
+              return true;
+            });
+      });
+    });
+
+    t.describe('rentReminder', () => {
+      t.beforeAll(() => {
+        t.setConfig(Config.DEFAULT);
+        t.spyOn(BalanceSheet, 'getBalance').and.returnValue(250);
+      });
+
+      t.it('shows the rent due and the balance', () => {
+        EmailSender.sendRentReminder({
+          amount: 1500,
+          date: new Date(2021, 6, 1),
+        });
+
+        this.expectSentMailToContain(t, ['$1,500', 'July 1, 2021', '$250']);
+        this.expectSendMailToHaveBeenCalledLike(
+            t, (params: SendEmailParameters) => {
+              t.expect(params[1]).toBe('Rent reminder');
+              return true;
+            });
+      });
     });
   }
 }
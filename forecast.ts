@@ -0,0 +1,144 @@
+import Util from './_util';
+import {BalanceRow} from './balance_sheet';
+import Charges from './charges';
+import {ConfigParams} from './config';
+import GeneratedSheet from './generated_sheet';
+import Interest from './interest';
+import Payoff from './payoff';
+import Rent from './rent';
+import Schedule from './schedule';
+import Scheduled, {ScheduledItem} from './scheduled';
+
+/**
+ * Projects the balance over the next 12 months, assuming every expected
+ * payment is made on time: rent on the day it is charged, and the default
+ * payment of a loan on every interest date. Late fees are left out, and daily
+ * interest is approximated by flat interest, like in Payoff.
+ */
+export default class Forecast {
+  static readonly SHEET_NAME = 'Forecast';
+
+  static readonly HEADERS = ['Date', 'Description', 'Transaction', 'Balance'];
+
+  static readonly MONTHS = 12;
+
+  /**
+   * Returns the projected transactions after `today`, oldest first. Like in
+   * the Balance sheet, payments are positive and charges are negative.
+   */
+  static getRows(
+      config: ConfigParams, balance: number, scheduledItems: ScheduledItem[],
+      today: Date): ForecastRow[] {
+    const {rentConfig, loanConfig} = config;
+    const todayStart = new Date(Util.getDayStart(today));
+    const end = Util.getDayStart(Util.addMonths(todayStart, Forecast.MONTHS));
+    const interestSchedule = loanConfig && Interest.getSchedule(loanConfig);
+    let nextLoanPaymentDate =
+        loanConfig && Payoff.getNextPaymentDate(loanConfig, todayStart);
+    let unpostedItems = scheduledItems.filter(item => !item.isPosted);
+
+    const rows: ForecastRow[] = [];
+    const addRow = (row: BalanceRow) => {
+      const transaction = row.transaction as number;
+      balance = Forecast.roundToCents(balance - transaction);
+      rows.push({
+        date: row.date,
+        description: row.description,
+        transaction,
+        balance,
+      });
+    };
+
+    for (let day = Util.addDays(todayStart, 1); Util.getDayStart(day) <= end;
+         day = Util.addDays(day, 1)) {
+      const rentRow = rentConfig && Rent.getRow(rentConfig, day);
+      if (rentRow) addRow(rentRow);
+
+      if (interestSchedule && Schedule.isDueOn(interestSchedule, day) &&
+          balance > 0) {
+        const interest = Forecast.roundToCents(
+            balance * Interest.getAnnualRateForPeriod(loanConfig, day) /
+            Interest.getPeriodsPerYear(loanConfig));
+        if (interest) {
+          addRow({
+            date: day,
+            description: 'Monthly interest',
+            transaction: -interest,
+            type: 'Interest',
+          });
+        }
+      }
+
+      Charges.getRows(config.charges ?? [], day).forEach(addRow);
+
+      const dueItems = unpostedItems.filter(
+          item => Util.getDayStart(item.date) <= Util.getDayStart(day));
+      unpostedItems = unpostedItems.filter(item => !dueItems.includes(item));
+      Scheduled.getRows(dueItems, day).forEach(addRow);
+
+      // Expected payments.
+      if (rentRow) {
+        addRow({
+          date: day,
+          description: 'Expected rent payment',
+          transaction: -(rentRow.transaction as number),
+          type: 'Payment',
+        });
+      }
+      if (nextLoanPaymentDate &&
+          Util.getDayStart(nextLoanPaymentDate) === Util.getDayStart(day)) {
+        nextLoanPaymentDate = Payoff.getNextPaymentDate(loanConfig, day);
+        const payment = Math.min(loanConfig.defaultPayment ?? 0, balance);
+        if (payment > 0) {
+          addRow({
+            date: day,
+            description: 'Expected payment',
+            transaction: payment,
+            type: 'Payment',
+          });
+        }
+      }
+    }
+    return rows;
+  }
+
+  /** Returns the contents of the Forecast sheet, including the header row. */
+  static getSheetValues(
+      config: ConfigParams, balance: number, scheduledItems: ScheduledItem[],
+      today: Date): unknown[][] {
+    const rows = Forecast.getRows(config, balance, scheduledItems, today);
+    return [
+      Forecast.HEADERS,
+      [new Date(Util.getDayStart(today)), 'Current balance', '', balance],
+      ...rows.map(
+          row => [row.date, row.description, row.transaction, row.balance]),
+    ];
+  }
+
+  /**
+   * Writes the forecast to the Forecast sheet, creating the sheet if needed.
+   */
+  static updateSheet(
+      config: ConfigParams, balance: number, scheduledItems: ScheduledItem[],
+      today: Date) {
+    GeneratedSheet.write(
+        Forecast.SHEET_NAME,
+        Forecast.getSheetValues(config, balance, scheduledItems, today), [
+          {column: 1, numColumns: 1, format: 'mmm d, yyyy'},
+          {column: 3, numColumns: 2, format: '$#,##0.00'},
+        ]);
+  }
+
+  private static roundToCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export interface ForecastRow {
+  date: Date;
+  description: string;
+  /** Positive for payments and negative for charges. */
+  transaction: number;
+  /** The balance after the transaction. */
+  balance: number;
+}
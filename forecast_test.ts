@@ -0,0 +1,117 @@
+import {JASLib} from 'jas_api';
+
+import Config from './config';
+import Forecast from './forecast';
+import {ScheduledItem} from './scheduled';
+import Tester from './testing/tester';
+
+export default class ForecastTest implements JASLib.Test {
+  readonly name: string = 'ForecastTest';
+
+  run(t: Tester) {
+    const today = new Date(2020, 0, 15);
+
+    t.describe('getRows', () => {
+      t.it('adds interest before each expected loan payment', () => {
+        const config = Config.getLoanConfigForTest(undefined, {
+          loanConfig: {defaultPayment: 500, interestRate: 0.12},
+        });
+        const rows = Forecast.getRows(config, 1000, [], today);
+
+        t.expect(rows.slice(0, 2)).toEqual([
+          {
+            date: new Date(2020, 1, 1),
+            description: 'Monthly interest',
+            transaction: -10,
+            balance: 1010,
+          },
+          {
+            date: new Date(2020, 1, 1),
+            description: 'Expected payment',
+            transaction: 500,
+            balance: 510,
+          },
+        ]);
+      });
+
+      t.it('stops loan payments when the loan is paid off', () => {
+        const config = Config.getLoanConfigForTest(undefined, {
+          loanConfig: {defaultPayment: 500, interestRate: 0.12},
+        });
+        const rows = Forecast.getRows(config, 1000, [], today);
+
+        t.expect(rows.length).toBe(6);
+        t.expect(rows[5]).toEqual({
+          date: new Date(2020, 3, 1),
+          description: 'Expected payment',
+          transaction: 15.25,
+          balance: 0,
+        });
+      });
+
+      t.it('expects rent to be paid when it is due', () => {
+        const rows = Forecast.getRows(Config.DEFAULT, 0, [], today);
+
+        t.expect(rows.length).toBe(24);
+        t.expect(rows.slice(0, 2)).toEqual([
+          {
+            date: new Date(2020, 1, 15),
+            description: 'Rent due',
+            transaction: -3600,
+            balance: 3600,
+          },
+          {
+            date: new Date(2020, 1, 15),
+            description: 'Expected rent payment',
+            transaction: 3600,
+            balance: 0,
+          },
+        ]);
+        t.expect(rows[23].date).toEqual(new Date(2021, 0, 15));
+      });
+
+      t.it('includes recurring charges and scheduled items', () => {
+        const config = Config.getLoanConfigForTest(
+            {
+              charges: [{
+                name: 'Parking',
+                amount: 40,
+                frequency: 'monthly',
+                dayOfMonth: 5,
+              }],
+            },
+            {loanConfig: {defaultPayment: 0, interestRate: 0}});
+        const item = (day: number, isPosted: boolean): ScheduledItem => ({
+          date: new Date(2020, 0, day),
+          description: `Item on ${day}`,
+          amount: -75,
+          isPosted,
+          row: day,
+        });
+        const rows = Forecast.getRows(
+            config, 0, [item(10, false), item(11, true), item(20, false)],
+            today);
+
+        t.expect(rows.slice(0, 3).map(row => row.description)).toEqual([
+          'Item on 10',
+          'Item on 20',
+          'Parking',
+        ]);
+        t.expect(rows[0].date).toEqual(new Date(2020, 0, 16));
+        t.expect(rows.length).toBe(14);
+      });
+    });
+
+    t.describe('getSheetValues', () => {
+      t.it('starts with the headers and the current balance', () => {
+        const values = Forecast.getSheetValues(
+            Config.DEFAULT, 100, [], new Date(2020, 0, 15, 13));
+
+        t.expect(values[0]).toEqual(Forecast.HEADERS);
+        t.expect(values[1]).toEqual(
+            [new Date(2020, 0, 15), 'Current balance', '', 100]);
+        t.expect(values[2][3]).toBe(3700);
+      });
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import {SSLib} from 'ss_api';
+
+/**
+ * A sheet that the library fills in from scratch, like the Forecast and
+ * Amortization sheets. Owners can read it, but edits are overwritten.
+ */
+export default class GeneratedSheet {
+  /**
+   * Writes `values` to the sheet named `sheetName`, creating the sheet if
+   * needed. The first row is the header.
+   * @param numberFormats Applied to the data rows below the header.
+   */
+  static write(
+      sheetName: string, values: unknown[][], numberFormats: NumberFormat[]) {
+    const numRows = values.length;
+    const numColumns = values[0].length;
+
+    const spreadsheet =
+        SSLib.JasSpreadsheet.getSpreadsheet(_JasLibContext.spreadsheetId);
+    const sheet = spreadsheet.getSheetByName(sheetName) ??
+        spreadsheet.insertSheet(sheetName);
+
+    // Do nothing if the values haven't changed. Otherwise every daily update
+    // would add an entry in Drive Activity Log for every client sheet.
+    if (sheet.getLastRow() === numRows &&
+        sheet.getLastColumn() === numColumns &&
+        JSON.stringify(
+            sheet.getRange(1, 1, numRows, numColumns).getValues()) ===
+            JSON.stringify(values)) {
+      return;
+    }
+
+    sheet.clear();
+    sheet.getRange(1, 1, numRows, numColumns).setValues(values);
+    sheet.setFrozenRows(1);
+    sheet.getRange(1, 1, 1, numColumns).setFontWeight('bold');
+    for (const format of numberFormats) {
+      sheet.getRange(2, format.column, numRows - 1, format.numColumns)
+          .setNumberFormat(format.format);
+    }
+    Logger.log(`Updated the ${sheetName} sheet.`);
+  }
+}
+
+export interface NumberFormat {
+  /** The first column, 1-based. */
+  column: number;
+  numColumns: number;
+  /** Like '$#,##0.00'. */
+  format: string;
+}
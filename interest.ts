@@ -0,0 +1,120 @@
+import Util from './_util';
+import {BalanceRow} from './balance_sheet';
+import {LoanConfig, ScheduleConfig} from './config';
+import Schedule from './schedule';
+
+export default class Interest {
+  static readonly DAYS_IN_YEAR = 365;
+
+  /**
+   * The interest schedule, or a monthly one on the interest day of the month.
+   * Null for loans without either, which are 0-interest loans.
+   */
+  static getSchedule(loanConfig: LoanConfig): ScheduleConfig|null {
+    if (loanConfig.interestSchedule) return loanConfig.interestSchedule;
+    if (loanConfig.interestDayOfMonth === undefined) return null;
+    return Schedule.fromDayOfMonth(loanConfig.interestDayOfMonth);
+  }
+
+  /** Returns the annual interest rate in effect on `date`. */
+  static getRate(loanConfig: LoanConfig, date: Date): number {
+    let rate = loanConfig.interestRate;
+    const dayStart = Util.getDayStart(date);
+    for (const change of loanConfig.rateHistory ?? []) {
+      if (Util.getDayStart(change.effectiveDate) > dayStart) break;
+      rate = change.rate;
+    }
+    return rate;
+  }
+
+  /**
+   * Returns the annual rate for flat interest posted on `date`. That is the
+   * rate in effect at the start of the period the interest is for, so a rate
+   * change applies from the first full period after it. Callers divide it by
+   * getPeriodsPerYear().
+   */
+  static getAnnualRateForPeriod(loanConfig: LoanConfig, date: Date): number {
+    const schedule = Interest.getSchedule(loanConfig);
+    const periodStart = schedule ? Schedule.getPreviousDate(schedule, date) :
+                                   Util.addMonths(date, -1);
+    return Interest.getRate(loanConfig, periodStart);
+  }
+
+  /**
+   * Returns the number of times flat interest is posted in a year. Each
+   * posting charges the annual rate divided by this.
+   */
+  static getPeriodsPerYear(loanConfig: LoanConfig): number {
+    const schedule = Interest.getSchedule(loanConfig);
+    return schedule ? Schedule.PERIODS_PER_YEAR[schedule.frequency] : 12;
+  }
+
+  /**
+   * Returns the interest posted on `date` for a daily-accrual loan: the sum of
+   * each day's closing balance times that day's rate / 365, for every day since
+   * the last interest posting. If the ledger has no earlier interest, the
+   * period starts a month before `date`. Days with a negative balance accrue
+   * nothing.
+   * @param rateOnDate Returns the annual rate in effect on a day.
+   * @param balanceOnDate Returns the balance at the end of a day.
+   * @returns Null if the rate was 0 for the whole period.
+   */
+  static getDailyAccrual(
+      rateOnDate: (date: Date) => number, date: Date, ledger: BalanceRow[],
+      balanceOnDate: (date: Date) => number): DailyAccrual|null {
+    const dayStart = Util.getDayStart(date);
+    const postingDays = ledger.filter(entry => entry.type === 'Interest')
+                            .map(entry => Util.getDayStart(entry.date))
+                            .filter(postingDay => postingDay < dayStart);
+    const periodStart = new Date(
+        postingDays.length ? Math.max(...postingDays) :
+                             Util.getDayStart(Util.addMonths(date, -1)));
+
+    // Group consecutive days with the same balance and rate into one line of
+    // the note.
+    const spans: Array<
+        {start: Date; end: Date; days: number; balance: number; rate: number}> =
+        [];
+    for (let day = periodStart; Util.getDayStart(day) < dayStart;
+         day = Util.addDays(day, 1)) {
+      const balance = Math.max(balanceOnDate(day), 0);
+      const rate = rateOnDate(day);
+      const lastSpan = spans[spans.length - 1];
+      if (lastSpan && lastSpan.balance === balance && lastSpan.rate === rate) {
+        lastSpan.end = day;
+        lastSpan.days++;
+      } else {
+        spans.push({start: day, end: day, days: 1, balance, rate});
+      }
+    }
+    if (spans.every(span => !span.rate)) return null;
+
+    const getSpanInterest = (span: typeof spans[number]) =>
+        span.balance * span.rate / Interest.DAYS_IN_YEAR * span.days;
+    const total = spans.reduce((sum, span) => sum + getSpanInterest(span), 0);
+    const amount = Math.round(total * 100) / 100;
+
+    const formatDay = (day: Date) =>
+        Utilities.formatDate(day, Session.getScriptTimeZone(), 'MMM d');
+    const lines = spans.map(span => {
+      const percent = Math.round(span.rate * 10000) / 100;
+      return `${formatDay(span.start)} - ${formatDay(span.end)}: ${
+          span.days} days x ${Util.formatMoney(span.balance, true)} x ${
+          percent}% / ${Interest.DAYS_IN_YEAR} = ${
+          Util.formatMoney(getSpanInterest(span), true)}`;
+    });
+    const note = [
+      'Daily interest (actual/365):',
+      ...lines,
+      `Total: ${Util.formatMoney(amount, true)}`,
+    ].join('\n');
+
+    return {amount, note};
+  }
+}
+
+export interface DailyAccrual {
+  amount: number;
+  /** Shows how the amount was calculated. */
+  note: string;
+}
@@ -0,0 +1,108 @@
+import {JASLib} from 'jas_api';
+
+import {BalanceRow} from './balance_sheet';
+import Config from './config';
+import Interest from './interest';
+import Tester from './testing/tester';
+
+export default class InterestTest implements JASLib.Test {
+  readonly name: string = 'InterestTest';
+
+  run(t: Tester) {
+    const {loanConfig} = Config.getLoanConfigForTest(undefined, {
+      loanConfig: {
+        interestRate: 0.05,
+        rateHistory: [
+          {effectiveDate: new Date(2020, 2, 1), rate: 0.06},
+          {effectiveDate: new Date(2020, 5, 15), rate: 0.04},
+        ],
+      },
+    });
+
+    t.describe('getRate', () => {
+      t.it('uses the base rate before the first change', () => {
+        t.expect(Interest.getRate(loanConfig, new Date(2020, 1, 29)))
+            .toBe(0.05);
+      });
+
+      t.it('uses the latest change in effect', () => {
+        t.expect(Interest.getRate(loanConfig, new Date(2020, 2, 1))).toBe(0.06);
+        t.expect(Interest.getRate(loanConfig, new Date(2020, 5, 14, 23)))
+            .toBe(0.06);
+        t.expect(Interest.getRate(loanConfig, new Date(2021, 0, 1))).toBe(0.04);
+      });
+    });
+
+    t.describe('getAnnualRateForPeriod', () => {
+      t.it('uses the rate from the start of the period', () => {
+        t.expect(
+             Interest.getAnnualRateForPeriod(loanConfig, new Date(2020, 6, 1)))
+            .toBe(0.06);
+        t.expect(
+             Interest.getAnnualRateForPeriod(loanConfig, new Date(2020, 6, 15)))
+            .toBe(0.04);
+      });
+    });
+
+    t.describe('getDailyAccrual', () => {
+      // 0.01% per day.
+      const rateOnDate = () => 0.0365;
+      const postingDate = new Date(2020, 6, 5);
+      const ledger: BalanceRow[] = [{
+        date: new Date(2020, 5, 5),
+        description: 'Monthly interest',
+        transaction: -3.04,
+        type: 'Interest',
+      }];
+
+      // A payment of $200 on Jun 20.
+      const balanceOnDate = (date: Date) =>
+          date.getTime() < new Date(2020, 5, 20).getTime() ? 1000 : 800;
+
+      t.it('sums daily interest since the last posting', () => {
+        const {amount} = Interest.getDailyAccrual(
+            rateOnDate, postingDate, ledger, balanceOnDate);
+        t.expect(amount).toBe(2.7);
+      });
+
+      t.it('shows the calculation in the note', () => {
+        const {note} = Interest.getDailyAccrual(
+            rateOnDate, postingDate, ledger, balanceOnDate);
+        t.expect(note).toBe(
+            'Daily interest (actual/365):\n' +
+            'Jun 5 - Jun 19: 15 days x $1,000.00 x 3.65% / 365 = $1.50\n' +
+            'Jun 20 - Jul 4: 15 days x $800.00 x 3.65% / 365 = $1.20\n' +
+            'Total: $2.70');
+      });
+
+      t.it('starts a month back without an earlier posting', () => {
+        const {amount} =
+            Interest.getDailyAccrual(rateOnDate, postingDate, [], () => 1000);
+        t.expect(amount).toBe(3);
+      });
+
+      t.it('accrues nothing on days with a negative balance', () => {
+        const {amount} = Interest.getDailyAccrual(
+            rateOnDate, postingDate, ledger,
+            (date: Date) => date.getDate() === 1 ? 1000 : -500);
+        t.expect(amount).toBe(0.1);
+      });
+
+      t.it('uses the rate in effect on each day', () => {
+        // Doubles to 0.02% per day on Jun 25.
+        const rateChangeDate = new Date(2020, 5, 25);
+        const {amount, note} = Interest.getDailyAccrual(
+            (date: Date) => date < rateChangeDate ? 0.0365 : 0.073, postingDate,
+            ledger, () => 1000);
+        t.expect(amount).toBe(4);
+        t.expect(note).toContain('Jun 25 - Jul 4: 10 days x $1,000.00 x 7.3%');
+      });
+
+      t.it('returns null when the rate is 0', () => {
+        t.expect(
+             Interest.getDailyAccrual(() => 0, postingDate, ledger, () => 1000))
+            .toBeNull();
+      });
+    });
+  }
+}
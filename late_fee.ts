@@ -0,0 +1,83 @@
+import Util from './_util';
+import {BalanceRow} from './balance_sheet';
+import {LateFeeConfig, RentConfig} from './config';
+import Rent from './rent';
+
+export default class LateFee {
+  static readonly DESCRIPTION = 'Late fee';
+
+  /**
+   * Returns the late fee to post on `date`, or null if there is none. A fee is
+   * posted on the first day after the grace period if rent is still owed, for
+   * due dates up to the end of the lease.
+   * @param balance The balance at the end of the last day of the grace period.
+   * @param ledger Used to find late fees already charged this month.
+   */
+  static getRow(
+      rentConfig: RentConfig, date: Date, balance: number,
+      ledger: BalanceRow[]): BalanceRow|null {
+    const {lateFee} = rentConfig;
+    if (!lateFee || balance <= 0) return null;
+
+    const dueDate = Util.addDays(date, -(lateFee.graceDays + 1));
+    if (!Rent.isDueOn(rentConfig, dueDate) ||
+        LateFee.isAfterLeaseEnd(rentConfig, dueDate)) {
+      return null;
+    }
+
+    const amount = LateFee.getAmount(
+        lateFee, balance, LateFee.getChargedInMonth(date, ledger));
+    if (amount <= 0) return null;
+
+    return {
+      date,
+      description: LateFee.DESCRIPTION,
+      transaction: -amount,
+      type: 'Fee',
+    };
+  }
+
+  /**
+   * Returns the fee for an unpaid `balance`, limited so that the fees in a
+   * month don't go over the monthly maximum.
+   */
+  static getAmount(lateFee: LateFeeConfig, balance: number, chargedInMonth = 0):
+      number {
+    let amount = lateFee.flatAmount ??
+        Math.round(balance * lateFee.percentage * 100) / 100;
+    if (lateFee.maxPerMonth !== undefined) {
+      amount = Math.min(amount, lateFee.maxPerMonth - chargedInMonth);
+    }
+    return Math.max(amount, 0);
+  }
+
+  /**
+   * Returns the next date after `today` on which a late fee would be posted if
+   * the balance is not paid, or null if the lease ends before the next due
+   * date.
+   */
+  static getNextFeeDate(rentConfig: RentConfig, today: Date): Date|null {
+    const graceDays = rentConfig.lateFee.graceDays;
+    // The first due date whose grace period ends today or later.
+    const {dueDate} =
+        Rent.getNextDueDate(rentConfig, Util.addDays(today, -(graceDays + 1)));
+    if (LateFee.isAfterLeaseEnd(rentConfig, dueDate)) return null;
+    return Util.addDays(dueDate, graceDays + 1);
+  }
+
+  private static isAfterLeaseEnd(rentConfig: RentConfig, date: Date): boolean {
+    const {leaseEndDate} = rentConfig;
+    return !!leaseEndDate &&
+        Util.getDayStart(date) > Util.getDayStart(leaseEndDate);
+  }
+
+  private static getChargedInMonth(date: Date, ledger: BalanceRow[]): number {
+    return ledger
+        .filter(
+            entry => entry.type === 'Fee' &&
+                entry.description === LateFee.DESCRIPTION &&
+                entry.date.getFullYear() === date.getFullYear() &&
+                entry.date.getMonth() === date.getMonth())
+        .reduce((sum, entry) => sum - (Number(entry.transaction) || 0), 0);
+  }
+}
@@ -0,0 +1,144 @@
+import {JASLib} from 'jas_api';
+
+import {BalanceRow} from './balance_sheet';
+import Config from './config';
+import LateFee from './late_fee';
+import Tester from './testing/tester';
+
+export default class LateFeeTest implements JASLib.Test {
+  readonly name: string = 'LateFeeTest';
+
+  run(t: Tester) {
+    const {rentConfig} = Config.getRentConfigForTest(undefined, {
+      rentConfig: {
+        dueDayOfMonth: 5,
+        lateFee: {graceDays: 3, flatAmount: 50},
+      },
+    });
+
+    t.describe('getRow', () => {
+      const feeDate = new Date(2020, 6, 9);
+
+      t.it('charges on the first day after the grace period', () => {
+        t.expect(LateFee.getRow(rentConfig, feeDate, 100, [])).toEqual({
+          date: feeDate,
+          description: 'Late fee',
+          transaction: -50,
+          type: 'Fee',
+        });
+      });
+
+      t.it('does not charge on other days', () => {
+        t.expect(LateFee.getRow(rentConfig, new Date(2020, 6, 8), 100, []))
+            .toBeNull();
+        t.expect(LateFee.getRow(rentConfig, new Date(2020, 6, 10), 100, []))
+            .toBeNull();
+      });
+
+      t.it('does not charge when nothing is owed', () => {
+        t.expect(LateFee.getRow(rentConfig, feeDate, 0, [])).toBeNull();
+        t.expect(LateFee.getRow(rentConfig, feeDate, -20, [])).toBeNull();
+      });
+
+      t.it('stops at the monthly maximum', () => {
+        const cappedConfig = {
+          ...rentConfig,
+          lateFee: {...rentConfig.lateFee, maxPerMonth: 80},
+        };
+        const ledger: BalanceRow[] = [{
+          date: new Date(2020, 6, 2),
+          description: 'Late fee',
+          transaction: -50,
+          type: 'Fee',
+        }];
+
+        t.expect(LateFee.getRow(cappedConfig, feeDate, 100, ledger).transaction)
+            .toBe(-30);
+
+        ledger[0].transaction = -80;
+        t.expect(LateFee.getRow(cappedConfig, feeDate, 100, ledger)).toBeNull();
+      });
+
+      t.it('does not charge for due dates after the lease ends', () => {
+        const endedConfig = {...rentConfig, leaseEndDate: new Date(2020, 6, 4)};
+        t.expect(LateFee.getRow(endedConfig, feeDate, 100, [])).toBeNull();
+      });
+
+      t.it('charges for the last due date of the lease', () => {
+        const endingConfig = {
+          ...rentConfig,
+          leaseEndDate: new Date(2020, 6, 5)
+        };
+        t.expect(LateFee.getRow(endingConfig, feeDate, 100, [])).not.toBeNull();
+      });
+    });
+
+    t.describe('getAmount', () => {
+      t.it('uses the flat amount', () => {
+        t.expect(LateFee.getAmount({graceDays: 0, flatAmount: 35}, 1000))
+            .toBe(35);
+      });
+
+      t.it('uses a percentage of the balance', () => {
+        t.expect(LateFee.getAmount({graceDays: 0, percentage: 0.05}, 1234.5))
+            .toBe(61.73);
+      });
+
+      t.it('limits the amount to the monthly maximum', () => {
+        t.expect(LateFee.getAmount(
+                     {graceDays: 0, percentage: 0.1, maxPerMonth: 75}, 1000))
+            .toBe(75);
+        t.expect(LateFee.getAmount(
+                     {graceDays: 0, flatAmount: 50, maxPerMonth: 75}, 1000, 50))
+            .toBe(25);
+      });
+    });
+
+    t.describe('getNextFeeDate', () => {
+      t.it('is after the grace period of the current month', () => {
+        t.expect(LateFee.getNextFeeDate(rentConfig, new Date(2020, 6, 6)))
+            .toEqual(new Date(2020, 6, 9));
+      });
+
+      t.it('is in the next month once the fee date has passed', () => {
+        t.expect(LateFee.getNextFeeDate(rentConfig, new Date(2020, 6, 9)))
+            .toEqual(new Date(2020, 7, 9));
+      });
+
+      t.it('is in the current month before the due date', () => {
+        t.expect(LateFee.getNextFeeDate(rentConfig, new Date(2020, 6, 2)))
+            .toEqual(new Date(2020, 6, 9));
+      });
+
+      t.it('counts the grace period from the moved due date', () => {
+        // Jul 3, 2021 is a Saturday, and Jul 5 the observed Independence Day.
+        const config = {
+          ...rentConfig,
+          dueDayOfMonth: 3,
+          businessDayPolicy: 'next business day' as const,
+        };
+        t.expect(LateFee.getNextFeeDate(config, new Date(2021, 6, 3)))
+            .toEqual(new Date(2021, 6, 10));
+        t.expect(LateFee.getRow(config, new Date(2021, 6, 10), 100, []))
+            .not.toBeNull();
+        t.expect(LateFee.getRow(config, new Date(2021, 6, 7), 100, []))
+            .toBeNull();
+      });
+
+      t.it('is null once the lease has ended', () => {
+        const endedConfig = {
+          ...rentConfig,
+          leaseEndDate: new Date(2020, 6, 15)
+        };
+        t.expect(LateFee.getNextFeeDate(endedConfig, new Date(2020, 6, 9)))
+            .toBeNull();
+      });
+
+      t.it('handles grace periods that cross into the next month', () => {
+        const config = {...rentConfig, dueDayOfMonth: 28};
+        t.expect(LateFee.getNextFeeDate(config, new Date(2020, 1, 28)))
+            .toEqual(new Date(2020, 2, 3));
+      });
+    });
+  }
+}
@@ -6,6 +6,8 @@ import ClientSheetManager from './client_sheet_manager';
 import Config from './config';
 import EmailChecker from './email_checker';
 import EmailSender from './email_sender';
+import TransactionForm from './transaction_form';
+import WhatIf from './what_if';
 
 
 
@@ -128,11 +130,21 @@ export class MenuItems {
       displayName: 'Check email now',
       functionName: 'checkLabeledEmail',
     },
+    {
+      icon: '➕',
+      displayName: 'Add transaction',
+      functionName: 'showTransactionForm',
+    },
     {
       icon: '⚙',
       displayName: 'Validate config',
       functionName: 'validateConfig',
     },
+    {
+      icon: '🧮',
+      displayName: 'What-if calculator',
+      functionName: 'showWhatIfCalculator',
+    },
     null /* Menu separator */,
     {
       icon: '📧',
@@ -206,6 +218,14 @@ export class MenuItems {
     }
   }
 
+  static showTransactionForm(spreadsheetId: string) {
+    TransactionForm.showSidebar(spreadsheetId);
+  }
+
+  static showWhatIfCalculator(spreadsheetId: string) {
+    WhatIf.showSidebar(spreadsheetId);
+  }
+
   static sendTestPaymentEmail() {
     const response = SpreadsheetApp.getUi().prompt(
         'Payment amount:\n\n', SpreadsheetApp.getUi().ButtonSet.OK_CANCEL);
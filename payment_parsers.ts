@@ -0,0 +1,319 @@
+import {CustomParserConfig, PaymentType} from './config';
+
+type GmailMessage = GoogleAppsScript.Gmail.GmailMessage;
+
+/**
+ * The payment emails that EmailChecker understands, declared as data. Each
+ * descriptor says how to recognize one kind of payment email and where in it
+ * to find the payment details.
+ */
+export default class PaymentParsers {
+  /** An amount like 1,500 or 1500.00, without the dollar sign. */
+  static readonly AMOUNT = '[0-9,]+(?:\\.[0-9][0-9])?';
+
+  /** The date, confirmation number and memo that Zelle emails may include. */
+  private static readonly ZELLE_DETAILS = [
+    /(?:Sent on|Date sent|Date):?[ \t]*(?<date>[A-Z][a-z]+\.? [0-9]{1,2},? [0-9]{4}|[0-9]{1,2}\/[0-9]{1,2}\/[0-9]{2,4})/,
+    /Confirmation(?: number| #)?:?\s*(?<ref>(?=[A-Z]*[0-9])[A-Z0-9]{6,})/i,
+    /Memo:[ \t]*(?<note>\S[^\n]*)/i,
+  ];
+
+  static readonly DESCRIPTORS: PaymentParserDescriptor[] = [
+    {
+      paymentType: 'Test',
+      sender: 'jaoguntebi@gmail.com',
+      subject: /AS Lease Lib Test Payment/,
+      body:
+          new RegExp(`Payment amount: \\$(?<amount>${PaymentParsers.AMOUNT})`),
+      query: `(subject:"AS Lease Lib Test Payment")`,
+    },
+    {
+      paymentType: 'Venmo',
+      sender: 'venmo',
+      subject: new RegExp(
+          `(?<payer>.*) paid you \\$(?<amount>${PaymentParsers.AMOUNT})`, 'i'),
+      details:
+          [
+            /(?:Transaction|Payment) ID:?\s*(?<ref>[0-9]+)/i,
+            // The note is on the first line after the amount, which may be on
+            // a line of its own.
+            new RegExp(
+                `paid you\\s*\\$${PaymentParsers.AMOUNT}[ \\t\\r]*\\n\\s*` +
+                    `(?!(?:Transaction|Payment) ID)(?<note>\\S[^\\n]*)`,
+                'i'),
+          ],
+      query: `from:venmo subject:"paid you"`,
+    },
+    // Zelle into an Ally account.
+    {
+      paymentType: 'Zelle',
+      sender: 'ally',
+      subject: /payment|deposited|deposit/,
+      body: new RegExp(
+          `deposited.*\\$(?<amount>${PaymentParsers.AMOUNT})` +
+              `.*payment.*from (?<payer>.*)`,
+          'i'),
+      query: `subject:(payment|deposited|deposit) zelle ` +
+          `("deposited your payment"|"deposited your zelle payment"|"into your account")`,
+      details: PaymentParsers.ZELLE_DETAILS,
+    },
+    // Zelle into a Chase account.
+    {
+      paymentType: 'Zelle',
+      sender: 'chase.com',
+      subject: /received money with Zelle/i,
+      body: new RegExp(
+          `(?<payer>.*) sent you \\$(?<amount>${PaymentParsers.AMOUNT})`, 'i'),
+      query: `from:chase.com subject:"received money with Zelle"`,
+      details: PaymentParsers.ZELLE_DETAILS,
+    },
+    // Zelle into a Bank of America account.
+    {
+      paymentType: 'Zelle',
+      sender: 'bankofamerica.com',
+      subject: new RegExp(
+          `(?<payer>.*) sent you \\$(?<amount>${PaymentParsers.AMOUNT})`, 'i'),
+      body: /Zelle/i,
+      query: `from:bankofamerica.com subject:"sent you" zelle`,
+      details: PaymentParsers.ZELLE_DETAILS,
+    },
+    // The body must say that the money was received, so that other Cash App
+    // emails with the same subject, like declined payments, aren't posted.
+    {
+      paymentType: 'Cash App',
+      sender: 'cash@square.com',
+      subject: new RegExp(
+          `(?<payer>.*) sent you \\$(?<amount>${PaymentParsers.AMOUNT})`, 'i'),
+      body: new RegExp(`received \\$${PaymentParsers.AMOUNT}`, 'i'),
+      query: `from:cash@square.com subject:"sent you"`,
+    },
+    {
+      paymentType: 'PayPal',
+      sender: 'paypal.com',
+      subject: /you've got money/i,
+      body: new RegExp(
+          `(?<payer>.*) sent you \\$(?<amount>${PaymentParsers.AMOUNT}) USD`,
+          'i'),
+      query: `from:paypal.com subject:"you've got money"`,
+    },
+    // ACH credits into an Ally account, like direct deposits from an employer.
+    {
+      paymentType: 'ACH',
+      sender: 'ally',
+      subject: /deposit/i,
+      body: new RegExp(
+          `(?:ACH|direct) deposit of \\$(?<amount>${PaymentParsers.AMOUNT})` +
+              ` from (?<payer>.*)`,
+          'i'),
+      query: `from:ally subject:deposit ("ACH deposit"|"direct deposit")`,
+    },
+  ];
+
+  private static readonly MONTHS = [
+    'jan',
+    'feb',
+    'mar',
+    'apr',
+    'may',
+    'jun',
+    'jul',
+    'aug',
+    'sep',
+    'oct',
+    'nov',
+    'dec',
+  ];
+
+  /** The payment type of descriptors made from a Config custom parser. */
+  static readonly CUSTOM_PAYMENT_TYPE = 'Custom';
+
+  /**
+   * Returns the descriptors of `paymentTypes`, in order, followed by those of
+   * the custom parsers.
+   */
+  static getDescriptors(
+      paymentTypes: PaymentType[],
+      customParsers: CustomParserConfig[] = []): PaymentParserDescriptor[] {
+    const descriptors: PaymentParserDescriptor[] = [];
+    for (const paymentType of paymentTypes) {
+      descriptors.push(...PaymentParsers.DESCRIPTORS.filter(
+          d => d.paymentType === paymentType));
+    }
+    descriptors.push(...customParsers.map(PaymentParsers.fromCustomParser));
+    return descriptors;
+  }
+
+  /**
+   * Returns the descriptor of a custom parser that was validated by Config.
+   * Custom parsers aren't part of the recent payments query, so they only
+   * apply to threads that are labeled by hand. Their senders, like the owner's
+   * bank, send the payments of every tenant, so the body must name the payer.
+   */
+  static fromCustomParser(customParser: CustomParserConfig):
+      PaymentParserDescriptor {
+    const {sender, subjectKeyword, amountRegex} = customParser;
+    return {
+      paymentType: PaymentParsers.CUSTOM_PAYMENT_TYPE,
+      sender,
+      subject: new RegExp(PaymentParsers.escapeRegExp(subjectKeyword), 'i'),
+      body: new RegExp(amountRegex),
+      requireSearchName: true,
+      query: `from:${sender} subject:"${subjectKeyword}"`,
+    };
+  }
+
+  /**
+   * Returns the payment in `message`, or null if the message doesn't match the
+   * descriptor. The named groups of the subject and body patterns are combined.
+   * A date that can't be read is left out, so that the caller falls back to the
+   * message date.
+   * @param searchName If the descriptor captures a payer, it must contain this
+   *     name, ignoring case. So must the body, for descriptors that require
+   *     the search name.
+   */
+  static parse(
+      descriptor: PaymentParserDescriptor, message: GmailMessage,
+      searchName: string): ParsedPayment|null {
+    if (!message.getFrom().toLowerCase().includes(
+            descriptor.sender.toLowerCase())) {
+      return null;
+    }
+
+    const subjectGroups =
+        PaymentParsers.match(descriptor.subject, message.getSubject());
+    if (!subjectGroups) return null;
+    const bodyGroups = descriptor.body ?
+        PaymentParsers.match(descriptor.body, message.getPlainBody()) :
+        {};
+    if (!bodyGroups) return null;
+
+    const groups:
+        Record<string, string|undefined> = {...subjectGroups, ...bodyGroups};
+    for (const regExp of descriptor.details ?? []) {
+      const detailGroups = PaymentParsers.match(regExp, message.getPlainBody());
+      if (detailGroups) Object.assign(groups, detailGroups);
+    }
+    if (groups.payer !== undefined &&
+        !groups.payer.toLowerCase().includes(searchName.toLowerCase())) {
+      return null;
+    }
+    if (descriptor.requireSearchName &&
+        !message.getPlainBody().toLowerCase().includes(
+            searchName.toLowerCase())) {
+      return null;
+    }
+    const amount = Number((groups.amount ?? '').replace(/,/g, ''));
+    if (!amount) return null;
+
+    const date = groups.date ? PaymentParsers.parseDate(groups.date) : null;
+    if (groups.date && !date) {
+      Logger.log(`Ignoring unrecognized payment date '${groups.date}'.`);
+    }
+
+    return {
+      amount,
+      date: date ?? undefined,
+      payer: groups.payer?.trim(),
+      ref: groups.ref?.trim(),
+      note: groups.note?.trim(),
+    };
+  }
+
+  /**
+   * Reads a date like 'March 5, 2024', 'Mar 5, 2024', '03/05/2024' or
+   * '2024-03-05' as midnight of that day in the script's time zone. Like
+   * BalanceSheet.getToday(), the date's own fields hold the day, whatever the
+   * sheet's time zone. Returns null for anything else, or for days that don't
+   * exist.
+   */
+  static parseDate(text: string): Date|null {
+    text = text.trim();
+    let year: number, month: number, day: number;
+    let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+    if (match) {
+      [year, month, day] = match.slice(1).map(Number);
+    } else if ((match = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(text))) {
+      [month, day, year] = match.slice(1).map(Number);
+      if (year < 100) year += 2000;
+    } else if ((match = /^([a-z]+)\.? (\d{1,2}),? (\d{4})$/i.exec(text))) {
+      const monthName = match[1].substring(0, 3).toLowerCase();
+      month = PaymentParsers.MONTHS.indexOf(monthName) + 1;
+      [day, year] = match.slice(2).map(Number);
+    } else {
+      return null;
+    }
+
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 ||
+        date.getDate() !== day) {
+      return null;
+    }
+    return date;
+  }
+
+  /**
+   * Gmail query for threads that look like payment emails in the last hour,
+   * made of the query fragment of every descriptor.
+   */
+  static getRecentPaymentsQuery(): string {
+    return `newer_than:1h (` +
+        PaymentParsers.DESCRIPTORS.map(d => `(${d.query})`).join(` OR `) + `)`;
+  }
+
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /** Returns the named groups of the match, or null if there is no match. */
+  private static match(regExp: RegExp, text: string):
+      Record<string, string|undefined>|null {
+    const result = regExp.exec(text ?? '');
+    if (!result) return null;
+    return {...result.groups};
+  }
+}
+
+/**
+ * Describes one kind of payment email. A payment type can have several, like
+ * Zelle, whose emails depend on the receiving bank. The patterns capture the
+ * details of the payment in named groups: 'amount' is required, and 'payer',
+ * 'date', 'ref' and 'note' are optional. See ParsedPayment.
+ */
+export interface PaymentParserDescriptor {
+  paymentType: PaymentType;
+  /** Matched against the From header, ignoring case. */
+  sender: string;
+  subject: RegExp;
+  body?: RegExp;
+  /**
+   * Patterns for details in the body that some emails leave out, like a memo.
+   * Their named groups are added when they match, but the message is parsed
+   * without them.
+   */
+  details?: RegExp[];
+  /**
+   * Whether the body must contain the search name, for senders whose emails
+   * are about the payments of every tenant.
+   */
+  requireSearchName?: boolean;
+  /** Gmail search for messages of this kind. */
+  query: string;
+}
+
+/** The details of a matched payment email. */
+export interface ParsedPayment {
+  amount: number;
+  /**
+   * The day of the payment, if the email states one. It takes priority over
+   * the message date, which can be a day off.
+   */
+  date?: Date;
+  payer?: string;
+  /**
+   * The reference id of the payment, like a Venmo transaction id or a Zelle
+   * confirmation number.
+   */
+  ref?: string;
+  /** The payer's memo. */
+  note?: string;
+}
@@ -0,0 +1,438 @@
+import {JASLib} from 'jas_api';
+
+import Config, {PaymentType} from './config';
+import PaymentParsers, {ParsedPayment} from './payment_parsers';
+import Tester from './testing/tester';
+
+type GmailMessage = GoogleAppsScript.Gmail.GmailMessage;
+
+export default class PaymentParsersTest implements JASLib.Test {
+  readonly name: string = 'PaymentParsersTest';
+
+  run(t: Tester) {
+    const createMessage = (params: JASLib.GmailMessageParams): GmailMessage => {
+      JASLib.FakeGmailApp.setData({
+        labels: [{name: 'Fixtures', threads: [{messages: [params]}]}],
+      });
+      return JASLib.FakeGmailApp.getUserLabelByName('Fixtures')!.getThreads()[0]
+          .getMessages()[0];
+    };
+    /** Parses with the first descriptor of `paymentType` that matches. */
+    const parse =
+        (paymentType: PaymentType, params: JASLib.GmailMessageParams,
+         searchName = 'Gandalf'): ParsedPayment|null => {
+          const message = createMessage(params);
+          for (const descriptor of PaymentParsers.getDescriptors(
+                   [paymentType])) {
+            const parsedPayment =
+                PaymentParsers.parse(descriptor, message, searchName);
+            if (parsedPayment) return parsedPayment;
+          }
+          return null;
+        };
+
+    t.describe('Venmo', () => {
+      const message = {
+        subject: 'Gandalf the Grey paid you $1,500.00',
+        from: 'venmo@venmo.com',
+      };
+
+      t.it('parses the amount and payer from the subject', () => {
+        const parsedPayment = parse('Venmo', message);
+        t.expect(parsedPayment.amount).toBe(1500);
+        t.expect(parsedPayment.payer).toBe('Gandalf the Grey');
+      });
+
+      t.it('ignores other payers', () => {
+        t.expect(parse('Venmo', message, 'Legolas')).toBeNull();
+      });
+
+      t.it('parses the note and transaction id from the body', () => {
+        const parsedPayment = parse('Venmo', {
+          ...message,
+          plainBody: 'Gandalf the Grey paid you $1,500.00\n\nMarch rent\n\n' +
+              'Transaction ID\n4012345678901234567\n',
+        });
+        t.expect(parsedPayment.amount).toBe(1500);
+        t.expect(parsedPayment.note).toBe('March rent');
+        t.expect(parsedPayment.ref).toBe('4012345678901234567');
+      });
+
+      t.it('parses the note from other layouts', () => {
+        for (const plainBody of [
+                 // Extra blank lines.
+                 'Gandalf the Grey paid you $1,500.00\n\n\n\nMarch rent\n',
+                 // The amount on a line of its own.
+                 'Gandalf the Grey paid you\n\n$1,500.00\n\nMarch rent\n',
+                 // Windows line endings and trailing spaces.
+                 'Gandalf the Grey paid you $1,500.00  \r\n\r\nMarch rent\r\n',
+        ]) {
+          t.expect(parse('Venmo', {...message, plainBody}).note)
+              .toBe('March rent');
+        }
+      });
+
+      t.it('does not need a note', () => {
+        const parsedPayment = parse('Venmo', {
+          ...message,
+          plainBody: 'Gandalf the Grey paid you $1,500.00\n\n' +
+              'Transaction ID: 4012345678901234567\n',
+        });
+        t.expect(parsedPayment.note).toBe(undefined);
+        t.expect(parsedPayment.ref).toBe('4012345678901234567');
+      });
+
+      t.it('ignores other senders', () => {
+        t.expect(parse('Venmo', {...message, from: 'someone@gmail.com'}))
+            .toBeNull();
+      });
+    });
+
+    t.describe('Zelle into Ally', () => {
+      const message = {
+        subject: 'We deposited your Zelle payment',
+        from: 'email@transfers.ally.com',
+        plainBody: 'We have successfully deposited the $100.00 Zelle® ' +
+            'payment from GANDALF',
+      };
+
+      t.it('parses the amount and payer from the body', () => {
+        const parsedPayment = parse('Zelle', message);
+        t.expect(parsedPayment.amount).toBe(100);
+        t.expect(parsedPayment.payer).toBe('GANDALF');
+      });
+
+      t.it('requires a payment subject', () => {
+        t.expect(parse('Zelle', {...message, subject: 'Your statement'}))
+            .toBeNull();
+      });
+    });
+
+    t.describe('Zelle into Chase', () => {
+      const message = {
+        subject: 'You received money with Zelle®',
+        from: 'no.reply.alerts@chase.com',
+        plainBody: 'GANDALF GREY sent you $250.00.\n\n' +
+            'The money is now in your account ending in 1234.',
+      };
+
+      t.it('parses the amount and payer from the body', () => {
+        const parsedPayment = parse('Zelle', message);
+        t.expect(parsedPayment.amount).toBe(250);
+        t.expect(parsedPayment.payer).toBe('GANDALF GREY');
+      });
+
+      t.it('ignores other payers', () => {
+        t.expect(parse('Zelle', message, 'Legolas')).toBeNull();
+      });
+
+      t.it('parses the date the money was sent from the body', () => {
+        const parsedPayment = parse('Zelle', {
+          ...message,
+          plainBody: 'GANDALF GREY sent you $250.00.\n\nSent on Mar 5, 2024\n',
+        });
+        t.expect(parsedPayment.date).toEqual(new Date(2024, 2, 5));
+      });
+
+      t.it('parses the memo and confirmation number from the body', () => {
+        const parsedPayment = parse('Zelle', {
+          ...message,
+          plainBody: 'GANDALF GREY sent you $250.00.\n\nMemo: March rent\n' +
+              'Confirmation number: BACXYZ12345\n',
+        });
+        t.expect(parsedPayment.amount).toBe(250);
+        t.expect(parsedPayment.note).toBe('March rent');
+        t.expect(parsedPayment.ref).toBe('BACXYZ12345');
+      });
+    });
+
+    t.describe('Zelle into Bank of America', () => {
+      const message = {
+        subject: 'Gandalf Grey sent you $1,200.00',
+        from: 'customerservice@ealerts.bankofamerica.com',
+        plainBody: 'Gandalf Grey sent you $1,200.00 with Zelle®.',
+      };
+
+      t.it('parses the amount and payer from the subject', () => {
+        const parsedPayment = parse('Zelle', message);
+        t.expect(parsedPayment.amount).toBe(1200);
+        t.expect(parsedPayment.payer).toBe('Gandalf Grey');
+      });
+
+      t.it('requires Zelle in the body', () => {
+        t.expect(parse('Zelle', {...message, plainBody: 'Wire transfer'}))
+            .toBeNull();
+      });
+    });
+
+    t.describe('Cash App', () => {
+      const message = {
+        subject: 'Gandalf sent you $75',
+        from: 'Cash App <cash@square.com>',
+        plainBody: 'You received $75 from Gandalf.',
+      };
+
+      t.it('parses the amount and payer from the subject', () => {
+        const parsedPayment = parse('Cash App', message);
+        t.expect(parsedPayment.amount).toBe(75);
+        t.expect(parsedPayment.payer).toBe('Gandalf');
+      });
+
+      t.it('is not a Venmo payment', () => {
+        t.expect(parse('Venmo', message)).toBeNull();
+      });
+
+      t.it('requires the payment to be received', () => {
+        t.expect(parse('Cash App', {
+           ...message,
+           plainBody: 'Your payment from Gandalf of $75 was declined.',
+         })).toBeNull();
+      });
+    });
+
+    t.describe('PayPal', () => {
+      const message = {
+        subject: 'You\'ve got money',
+        from: 'service@paypal.com',
+        plainBody: 'Gandalf Grey sent you $3,600.00 USD\n' +
+            'Note from Gandalf Grey: March rent',
+      };
+
+      t.it('parses the amount and payer from the body', () => {
+        const parsedPayment = parse('PayPal', message);
+        t.expect(parsedPayment.amount).toBe(3600);
+        t.expect(parsedPayment.payer).toBe('Gandalf Grey');
+      });
+    });
+
+    t.describe('ACH', () => {
+      const message = {
+        subject: 'You have a new deposit',
+        from: 'email@ally.com',
+        plainBody: 'An ACH deposit of $900.00 from GANDALF PAYROLL has ' +
+            'posted to your account.',
+      };
+
+      t.it('parses the amount and payer from the body', () => {
+        const parsedPayment = parse('ACH', message);
+        t.expect(parsedPayment.amount).toBe(900);
+        t.expect(parsedPayment.payer).toContain('GANDALF PAYROLL');
+      });
+
+      t.it('is not a Zelle payment', () => {
+        t.expect(parse('Zelle', message)).toBeNull();
+      });
+    });
+
+    t.describe('realistic emails', () => {
+      const specs: Array<{
+        name: string,
+        paymentType: PaymentType,
+        message: JASLib.GmailMessageParams,
+        payer: string,
+      }> =
+          [
+            {
+              name: 'Zelle into Chase',
+              paymentType: 'Zelle',
+              message: {
+                subject: 'You received money with Zelle®',
+                from: 'Chase <no.reply.alerts@chase.com>',
+                plainBody: 'Chase\n\nYou received money with Zelle®\n\n' +
+                    'Gandalf Grey sent you $1,234.56.\n\n' +
+                    'Account ending in (...1234)\n' +
+                    'Sent on Mar 5, 2024\n',
+              },
+              payer: 'Gandalf Grey',
+            },
+            {
+              name: 'Zelle into Bank of America',
+              paymentType: 'Zelle',
+              message: {
+                subject: 'Gandalf Grey sent you $1,234.56',
+                from: 'Bank of America <customerservice@ealerts.' +
+                    'bankofamerica.com>',
+                plainBody: 'Gandalf Grey sent you $1,234.56\n\n' +
+                    'The money was deposited with Zelle® into your ' +
+                    'account ending in 1234.\n',
+              },
+              payer: 'Gandalf Grey',
+            },
+            {
+              name: 'Cash App',
+              paymentType: 'Cash App',
+              message: {
+                subject: 'Gandalf Grey sent you $1,234.56 for March rent',
+                from: 'Cash App <cash@square.com>',
+                plainBody: 'You received $1,234.56 from Gandalf Grey\n' +
+                    'For March rent\n\nIdentifier #D8KDZQP\n',
+              },
+              payer: 'Gandalf Grey',
+            },
+            {
+              name: 'PayPal',
+              paymentType: 'PayPal',
+              message: {
+                subject: 'You\'ve got money',
+                from: 'PayPal <service@paypal.com>',
+                plainBody: 'Hello, Jas\n\n' +
+                    'Gandalf Grey sent you $1,234.56 USD\n\n' +
+                    'Transaction ID\n1AB23456CD789012E\n',
+              },
+              payer: 'Gandalf Grey',
+            },
+            {
+              name: 'ACH',
+              paymentType: 'ACH',
+              message: {
+                subject: 'You have a new deposit',
+                from: 'Ally Bank <email@ally.com>',
+                plainBody: 'Good news!\n\n' +
+                    'A direct deposit of $1,234.56 from GANDALF GREY\n' +
+                    'posted to your account ending in 1234.\n',
+              },
+              payer: 'GANDALF GREY',
+            },
+          ];
+
+      for (const {name, paymentType, message, payer} of specs) {
+        t.it(`parses ${name}`, () => {
+          const parsedPayment = parse(paymentType, message);
+          t.expect(parsedPayment.amount).toBe(1234.56);
+          t.expect(parsedPayment.payer).toBe(payer);
+        });
+      }
+    });
+
+    t.describe('Test', () => {
+      t.it('parses the amount from the body', () => {
+        const parsedPayment = parse('Test', {
+          subject: 'AS Lease Lib Test Payment',
+          from: 'jaoguntebi@gmail.com',
+          plainBody: 'Payment amount: $12.34',
+        });
+        t.expect(parsedPayment.amount).toBe(12.34);
+      });
+    });
+
+    t.describe('custom parser', () => {
+      const descriptor = PaymentParsers.fromCustomParser({
+        sender: 'alerts@smallcu.org',
+        subjectKeyword: 'Deposit (received)',
+        amountRegex: 'deposit of \\$(?<amount>[0-9,.]+) from (?<payer>.*)',
+      });
+      const message = {
+        subject: 'Deposit (Received) in your checking account',
+        from: 'Small CU <alerts@smallcu.org>',
+        plainBody:
+            'We received a deposit of $1,200.00 from Gandalf Grey\nThank you.',
+      };
+
+      t.it('parses the amount and payer from the body', () => {
+        const parsedPayment =
+            PaymentParsers.parse(descriptor, createMessage(message), 'Gandalf');
+        t.expect(parsedPayment.amount).toBe(1200);
+        t.expect(parsedPayment.payer).toBe('Gandalf Grey');
+      });
+
+      t.it('matches the subject keyword literally', () => {
+        t.expect(PaymentParsers.parse(
+                     descriptor,
+                     createMessage({...message, subject: 'Deposit received'}),
+                     'Gandalf'))
+            .toBeNull();
+      });
+
+      t.it('ignores other senders', () => {
+        t.expect(PaymentParsers.parse(
+                     descriptor,
+                     createMessage({...message, from: 'alerts@bigbank.com'}),
+                     'Gandalf'))
+            .toBeNull();
+      });
+
+      t.it('requires the search name in the body', () => {
+        const amountOnlyDescriptor = PaymentParsers.fromCustomParser({
+          sender: 'alerts@smallcu.org',
+          subjectKeyword: 'Deposit (received)',
+          amountRegex: 'deposit of \\$(?<amount>[0-9,.]+)',
+        });
+        t.expect(PaymentParsers.parse(
+                     amountOnlyDescriptor, createMessage(message), 'Gandalf'))
+            .not.toBeNull();
+        t.expect(PaymentParsers.parse(
+                     amountOnlyDescriptor, createMessage(message), 'Frodo'))
+            .toBeNull();
+      });
+
+      t.it('comes after the descriptors of the payment types', () => {
+        const descriptors =
+            PaymentParsers.getDescriptors(['Venmo'], [{
+                                            sender: 'alerts@smallcu.org',
+                                            subjectKeyword: 'Deposit',
+                                            amountRegex: '(?<amount>[0-9]+)',
+                                          }]);
+        t.expect(descriptors.map(d => d.paymentType)).toEqual([
+          'Venmo',
+          PaymentParsers.CUSTOM_PAYMENT_TYPE,
+        ]);
+      });
+    });
+
+    t.describe('parseDate', () => {
+      t.it('reads common date formats', () => {
+        const expected = new Date(2024, 2, 5);
+        for (const text
+                 of ['March 5, 2024',
+                     'Mar. 5 2024',
+                     '03/05/2024',
+                     '3/5/24',
+                     '2024-03-05',
+        ]) {
+          t.expect(PaymentParsers.parseDate(text)).toEqual(expected);
+        }
+      });
+
+      t.it('returns null for other text', () => {
+        t.expect(PaymentParsers.parseDate('yesterday')).toBeNull();
+        t.expect(PaymentParsers.parseDate('Smarch 5, 2024')).toBeNull();
+        t.expect(PaymentParsers.parseDate('02/30/2024')).toBeNull();
+      });
+
+      t.it('is left out of the payment if it is not a date', () => {
+        const descriptor = PaymentParsers.fromCustomParser({
+          sender: 'alerts@smallcu.org',
+          subjectKeyword: 'Deposit',
+          amountRegex: '\\$(?<amount>[0-9,.]+) on (?<date>.+)',
+        });
+        const parsedPayment = PaymentParsers.parse(
+            descriptor, createMessage({
+              subject: 'Deposit received',
+              from: 'alerts@smallcu.org',
+              plainBody: 'Deposit of $10.00 on the way from Gandalf',
+            }),
+            'Gandalf');
+        t.expect(parsedPayment.amount).toBe(10);
+        t.expect(parsedPayment.date).toBe(undefined);
+      });
+    });
+
+    t.describe('getRecentPaymentsQuery', () => {
+      t.it('has a parser for every payment type', () => {
+        for (const paymentType of Object.keys(Config.PaymentTypeStrings)) {
+          t.expect(PaymentParsers.DESCRIPTORS.some(
+                       d => d.paymentType === paymentType))
+              .toBe(true);
+        }
+      });
+
+      t.it('combines the query of every descriptor', () => {
+        const query = PaymentParsers.getRecentPaymentsQuery();
+        t.expect(query).toContain('newer_than:1h (');
+        for (const descriptor of PaymentParsers.DESCRIPTORS) {
+          t.expect(query).toContain(`(${descriptor.query})`);
+        }
+      });
+    });
+  }
+}
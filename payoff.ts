@@ -0,0 +1,112 @@
+import Util from './_util';
+import {LoanConfig, ScheduleFrequency} from './config';
+import Interest from './interest';
+import Schedule from './schedule';
+
+export default class Payoff {
+  /** Projections stop after this many payments, like 100 years of monthly. */
+  static readonly MAX_PAYMENTS = 1200;
+
+  /**
+   * Projects when `balance` is paid off by paying `payment` on every interest
+   * date after `today`. Each payment is made right after the interest is
+   * posted. Future rate changes in the rate history are applied, and daily
+   * accrual is approximated by flat interest.
+   * @param extraPayment A one-time amount paid along with the first payment.
+   * @returns Why the balance isn't paid off, if the payments don't cover the
+   *     interest or would take more than MAX_PAYMENTS.
+   */
+  static project(
+      loanConfig: LoanConfig, balance: number, payment: number, today: Date,
+      extraPayment = 0): PayoffProjection|PayoffFailure {
+    if (balance <= 0) {
+      return {payoffDate: today, numPayments: 0, totalInterest: 0, periods: []};
+    }
+
+    const periodsPerYear = Interest.getPeriodsPerYear(loanConfig);
+    const periods: PayoffPeriod[] = [];
+    let date = today;
+    let totalInterest = 0;
+    while (periods.length < Payoff.MAX_PAYMENTS) {
+      date = Payoff.getNextPaymentDate(loanConfig, date);
+      const rate = Interest.getAnnualRateForPeriod(loanConfig, date);
+      const interest = Payoff.roundToCents(balance * rate / periodsPerYear);
+      const fullPayment = periods.length ? payment : payment + extraPayment;
+      if (fullPayment <= interest) return 'interest not covered';
+
+      const periodPayment =
+          Math.min(fullPayment, Payoff.roundToCents(balance + interest));
+      totalInterest += interest;
+      balance = Payoff.roundToCents(balance + interest - periodPayment);
+      periods.push({
+        date,
+        payment: periodPayment,
+        interest,
+        principal: Payoff.roundToCents(periodPayment - interest),
+        balance,
+      });
+      if (balance <= 0) {
+        return {
+          payoffDate: date,
+          numPayments: periods.length,
+          totalInterest: Payoff.roundToCents(totalInterest),
+          periods,
+        };
+      }
+    }
+    return 'too many payments';
+  }
+
+  /**
+   * Returns the interest that will be posted on the next interest date, at
+   * the current rate. Payments must be larger than this to pay off the loan.
+   */
+  static getPeriodInterest(
+      loanConfig: LoanConfig, balance: number, today: Date): number {
+    return Payoff.roundToCents(
+        Math.max(balance, 0) * Interest.getRate(loanConfig, today) /
+        Interest.getPeriodsPerYear(loanConfig));
+  }
+
+  /** How often payments are made in projections, like 'monthly'. */
+  static getFrequency(loanConfig: LoanConfig): ScheduleFrequency {
+    return Interest.getSchedule(loanConfig)?.frequency ?? 'monthly';
+  }
+
+  /**
+   * Returns the first projected payment date after `date`. Payments follow the
+   * interest schedule, or are monthly without one.
+   */
+  static getNextPaymentDate(loanConfig: LoanConfig, date: Date): Date {
+    const schedule = Interest.getSchedule(loanConfig);
+    return schedule ? Schedule.getNextDate(schedule, date) :
+                      Util.addMonths(date, 1);
+  }
+
+  private static roundToCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export interface PayoffProjection {
+  /** The date of the last payment. */
+  payoffDate: Date;
+  numPayments: number;
+  /** The interest posted from now until the loan is paid off. */
+  totalInterest: number;
+  periods: PayoffPeriod[];
+}
+
+/** Why a projection doesn't pay off the balance. */
+export type PayoffFailure = 'interest not covered'|'too many payments';
+
+export interface PayoffPeriod {
+  /** The interest date that the payment is made on. */
+  date: Date;
+  /** The last payment is only what is left. */
+  payment: number;
+  interest: number;
+  principal: number;
+  /** Remaining balance after the payment. */
+  balance: number;
+}
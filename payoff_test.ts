@@ -0,0 +1,110 @@
+import {JASLib} from 'jas_api';
+
+import Config from './config';
+import Payoff, {PayoffFailure, PayoffProjection} from './payoff';
+import Tester from './testing/tester';
+
+export default class PayoffTest implements JASLib.Test {
+  readonly name: string = 'PayoffTest';
+
+  run(t: Tester) {
+    const today = new Date(2020, 0, 15);
+    const getLoanConfig = (interestRate: number) =>
+        Config
+            .getLoanConfigForTest(
+                undefined, {loanConfig: {interestRate, interestDayOfMonth: 1}})
+            .loanConfig;
+    /** Leaves out the periods, which are checked separately. */
+    const summarize = (projection: PayoffProjection|PayoffFailure) =>
+        typeof projection === 'string' ? projection : {
+          payoffDate: projection.payoffDate,
+          numPayments: projection.numPayments,
+          totalInterest: projection.totalInterest,
+        };
+
+    t.describe('project', () => {
+      t.it('pays off a 0-interest loan in equal payments', () => {
+        t.expect(summarize(Payoff.project(getLoanConfig(0), 1000, 100, today)))
+            .toEqual({
+              payoffDate: new Date(2020, 10, 1),
+              numPayments: 10,
+              totalInterest: 0,
+            });
+      });
+
+      t.it('adds interest before each payment', () => {
+        // 1% a month: 1000 + 10 - 500, 510 + 5.10 - 500, 15.10 + 0.15 - 500.
+        t.expect(
+             summarize(Payoff.project(getLoanConfig(0.12), 1000, 500, today)))
+            .toEqual({
+              payoffDate: new Date(2020, 3, 1),
+              numPayments: 3,
+              totalInterest: 15.25,
+            });
+      });
+
+      t.it('adds a one-time extra payment to the first payment', () => {
+        const projection =
+            Payoff.project(getLoanConfig(0.12), 1000, 500, today, 500) as
+            PayoffProjection;
+        t.expect(projection.periods).toEqual([
+          {
+            date: new Date(2020, 1, 1),
+            payment: 1000,
+            interest: 10,
+            principal: 990,
+            balance: 10,
+          },
+          {
+            date: new Date(2020, 2, 1),
+            payment: 10.1,
+            interest: 0.1,
+            principal: 10,
+            balance: 0,
+          },
+        ]);
+        t.expect(projection.totalInterest).toBe(10.1);
+      });
+
+      t.it('follows the interest schedule', () => {
+        const {loanConfig} = Config.getLoanConfigForTest(undefined, {
+          loanConfig: {
+            interestRate: 0,
+            interestSchedule: {
+              frequency: 'biweekly',
+              anchorDate: new Date(2020, 0, 3),
+            },
+          },
+        });
+        t.expect(summarize(Payoff.project(loanConfig, 1000, 500, today)))
+            .toEqual({
+              payoffDate: new Date(2020, 0, 31),
+              numPayments: 2,
+              totalInterest: 0,
+            });
+      });
+
+      t.it(`fails when payments don't cover the interest`, () => {
+        t.expect(Payoff.project(getLoanConfig(0.12), 10000, 100, today))
+            .toBe('interest not covered');
+      });
+
+      t.it('fails when it takes more than the maximum payments', () => {
+        t.expect(Payoff.project(getLoanConfig(0), 2000, 1, today))
+            .toBe('too many payments');
+      });
+
+      t.it('is already paid off without a balance', () => {
+        t.expect(summarize(Payoff.project(getLoanConfig(0.12), 0, 100, today)))
+            .toEqual({payoffDate: today, numPayments: 0, totalInterest: 0});
+      });
+    });
+
+    t.describe('getPeriodInterest', () => {
+      t.it('uses the current rate', () => {
+        t.expect(Payoff.getPeriodInterest(getLoanConfig(0.06), 1000, today))
+            .toBe(5);
+      });
+    });
+  }
+}
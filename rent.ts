@@ -0,0 +1,243 @@
+import Util from './_util';
+import {BalanceRow} from './balance_sheet';
+import BusinessDays from './business_days';
+import {RentConfig, ScheduleConfig} from './config';
+import Schedule from './schedule';
+
+export default class Rent {
+  /** The due schedule, or a monthly one on the due day of the month. */
+  static getDueSchedule(rentConfig: RentConfig): ScheduleConfig {
+    return rentConfig.dueSchedule ??
+        Schedule.fromDayOfMonth(rentConfig.dueDayOfMonth);
+  }
+
+  /**
+   * Returns the first due date after `date`, moved to a business day by the
+   * business day policy, and the scheduled date it was moved from.
+   */
+  static getNextDueDate(rentConfig: RentConfig, date: Date):
+      {scheduledDate: Date; dueDate: Date} {
+    const schedule = Rent.getDueSchedule(rentConfig);
+    // Moving to a business day takes a due date less than a week away.
+    let scheduledDate =
+        Schedule.getPreviousDate(schedule, Util.addDays(date, -7));
+    let dueDate: Date;
+    do {
+      scheduledDate = Schedule.getNextDate(schedule, scheduledDate);
+      dueDate = Rent.toBusinessDay(rentConfig, scheduledDate);
+    } while (Util.getDayStart(dueDate) <= Util.getDayStart(date));
+    return {scheduledDate, dueDate};
+  }
+
+  /**
+   * Whether rent is due on `date` once due dates are moved to business days.
+   * Rent is posted on the scheduled date, but late fees count from this one.
+   */
+  static isDueOn(rentConfig: RentConfig, date: Date): boolean {
+    const {dueDate} = Rent.getNextDueDate(rentConfig, Util.addDays(date, -1));
+    return Util.getDayStart(dueDate) === Util.getDayStart(date);
+  }
+
+  /**
+   * Returns the rent charge to post on `date`, or null if there is none. Rent
+   * is charged on every due date while the lease runs, and also on the move-in
+   * day if the lease doesn't start on a due date. Partial periods at the start
+   * and end of the lease are prorated.
+   */
+  static getRow(rentConfig: RentConfig, date: Date): BalanceRow|null {
+    const {leaseStartDate, leaseEndDate} = rentConfig;
+    const dayStart = Util.getDayStart(date);
+    if (leaseStartDate && dayStart < Util.getDayStart(leaseStartDate)) {
+      return null;
+    }
+    if (leaseEndDate && dayStart > Util.getDayStart(leaseEndDate)) return null;
+
+    const isMoveInDay =
+        leaseStartDate && dayStart === Util.getDayStart(leaseStartDate);
+    if (!Schedule.isDueOn(Rent.getDueSchedule(rentConfig), date) &&
+        !isMoveInDay) {
+      return null;
+    }
+
+    const amount = Rent.getChargeAmount(rentConfig, date);
+    const isFullPeriod = amount === Rent.getPeriodAmount(rentConfig, date);
+    return {
+      date,
+      description: isFullPeriod ? 'Rent due' : 'Prorated rent due',
+      transaction: -amount,
+      type: 'Rent charge',
+    };
+  }
+
+  /**
+   * Returns the next rent charge due after `today`, or null if the lease ends
+   * before then. The date is moved to a business day by the business day
+   * policy.
+   */
+  static getUpcoming(rentConfig: RentConfig, today: Date):
+      {amount: number; date: Date}|null {
+    const {leaseStartDate, leaseEndDate} = rentConfig;
+    let {scheduledDate, dueDate} = Rent.getNextDueDate(rentConfig, today);
+    if (leaseStartDate &&
+        Util.getDayStart(leaseStartDate) > Util.getDayStart(today)) {
+      scheduledDate = leaseStartDate;
+      dueDate = Rent.toBusinessDay(rentConfig, leaseStartDate);
+    }
+    if (leaseEndDate &&
+        Util.getDayStart(scheduledDate) > Util.getDayStart(leaseEndDate)) {
+      return null;
+    }
+    return {
+      amount: Rent.getChargeAmount(rentConfig, scheduledDate),
+      date: dueDate,
+    };
+  }
+
+  /**
+   * Returns the rent charge that the tenant should be reminded about on `date`,
+   * or null if it isn't a reminder day.
+   */
+  static getReminder(rentConfig: RentConfig, date: Date):
+      {amount: number; date: Date}|null {
+    if (!rentConfig.reminderDays) return null;
+    const upcoming = Rent.getUpcoming(rentConfig, date);
+    if (!upcoming ||
+        Util.daysBetween(date, upcoming.date) !== rentConfig.reminderDays) {
+      return null;
+    }
+    return upcoming;
+  }
+
+  /**
+   * Returns the sum of the rent charges after `today` through the end of the
+   * lease. Only meaningful for leases with an end date.
+   */
+  static getRemainingRent(rentConfig: RentConfig, today: Date): number {
+    let total = 0;
+    for (let day = Util.addDays(today, 1);
+         Util.getDayStart(day) <= Util.getDayStart(rentConfig.leaseEndDate);
+         day = Util.addDays(day, 1)) {
+      const row = Rent.getRow(rentConfig, day);
+      if (row) total -= row.transaction as number;
+    }
+    return Math.round(total * 100) / 100;
+  }
+
+  /**
+   * Returns the monthly rent in effect on `date`, with every yearly escalation
+   * up to and including that day applied.
+   */
+  static getMonthlyAmount(rentConfig: RentConfig, date: Date): number {
+    const {monthlyAmount, escalation} = rentConfig;
+    if (!escalation) return monthlyAmount;
+
+    let amount = monthlyAmount;
+    for (let year = 0; Util.getDayStart(Rent.getAnniversary(
+                           rentConfig, year)) <= Util.getDayStart(date);
+         year++) {
+      amount = escalation.amount !== undefined ?
+          amount + escalation.amount :
+          Math.round(amount * (1 + escalation.percentage) * 100) / 100;
+    }
+    return amount;
+  }
+
+  /**
+   * Returns the full rent for one period of the due schedule on `date`. The
+   * monthly amount is spread over the year, so weekly tenants pay 12/52 of it
+   * on every due date.
+   */
+  static getPeriodAmount(rentConfig: RentConfig, date: Date): number {
+    const {frequency} = Rent.getDueSchedule(rentConfig);
+    const monthlyAmount = Rent.getMonthlyAmount(rentConfig, date);
+    if (frequency === 'monthly') return monthlyAmount;
+    return Math.round(
+               monthlyAmount * 12 / Schedule.PERIODS_PER_YEAR[frequency] *
+               100) /
+        100;
+  }
+
+  /**
+   * Returns the first rent increase after `date`, or null if there is none
+   * before the lease ends.
+   */
+  static getNextIncrease(rentConfig: RentConfig, date: Date): RentIncrease
+      |null {
+    if (!rentConfig.escalation) return null;
+
+    let year = 0;
+    while (Util.getDayStart(Rent.getAnniversary(rentConfig, year)) <=
+           Util.getDayStart(date)) {
+      year++;
+    }
+    const increaseDate = Rent.getAnniversary(rentConfig, year);
+    if (rentConfig.leaseEndDate &&
+        Util.getDayStart(increaseDate) >
+            Util.getDayStart(rentConfig.leaseEndDate)) {
+      return null;
+    }
+
+    return {
+      date: increaseDate,
+      previousAmount: Rent.getMonthlyAmount(rentConfig, date),
+      newAmount: Rent.getMonthlyAmount(rentConfig, increaseDate),
+    };
+  }
+
+  /**
+   * Returns the rent increase that the tenant should be notified about on
+   * `date`, or null if it isn't a notice day.
+   */
+  static getIncreaseToNotify(rentConfig: RentConfig, date: Date): RentIncrease
+      |null {
+    const increase = Rent.getNextIncrease(rentConfig, date);
+    if (!increase ||
+        Util.daysBetween(date, increase.date) !==
+            rentConfig.escalation.noticeDays) {
+      return null;
+    }
+    return increase;
+  }
+
+  private static toBusinessDay(rentConfig: RentConfig, date: Date): Date {
+    return BusinessDays.shift(
+        date, rentConfig.businessDayPolicy, rentConfig.holidays);
+  }
+
+  private static getAnniversary(rentConfig: RentConfig, year: number): Date {
+    return Util.addMonths(rentConfig.escalation.anniversaryDate, 12 * year);
+  }
+
+  /**
+   * Returns the rent for the period from `date` to the next due date. If the
+   * lease covers only part of a period, the rent is prorated by the number of
+   * days in that period.
+   */
+  private static getChargeAmount(rentConfig: RentConfig, date: Date): number {
+    const {leaseEndDate} = rentConfig;
+    const schedule = Rent.getDueSchedule(rentConfig);
+    const periodAmount = Rent.getPeriodAmount(rentConfig, date);
+    const nextDueDate = Schedule.getNextDate(schedule, date);
+    const periodDays = Util.daysBetween(
+        Schedule.getPreviousDate(schedule, nextDueDate), nextDueDate);
+
+    let chargedEnd = nextDueDate;
+    if (leaseEndDate &&
+        Util.getDayStart(leaseEndDate) < Util.getDayStart(nextDueDate)) {
+      // The end date is the last day of the lease.
+      chargedEnd = Util.addDays(leaseEndDate, 1);
+    }
+    // A move-in day that isn't a due day starts a partial period.
+    const chargedDays = Util.daysBetween(date, chargedEnd);
+
+    if (chargedDays >= periodDays) return periodAmount;
+    return Math.round(periodAmount * chargedDays / periodDays * 100) / 100;
+  }
+}
+
+export interface RentIncrease {
+  /** The day the new amount takes effect. */
+  date: Date;
+  previousAmount: number;
+  newAmount: number;
+}
@@ -0,0 +1,259 @@
+import {JASLib} from 'jas_api';
+
+import Config, {BusinessDayPolicy, EscalationConfig} from './config';
+import Rent from './rent';
+import Tester from './testing/tester';
+
+export default class RentTest implements JASLib.Test {
+  readonly name: string = 'RentTest';
+
+  run(t: Tester) {
+    const {rentConfig} = Config.getRentConfigForTest(undefined, {
+      rentConfig: {
+        monthlyAmount: 3000,
+        dueDayOfMonth: 1,
+        leaseStartDate: new Date(2020, 6, 16),
+        leaseEndDate: new Date(2021, 5, 15),
+      },
+    });
+
+    t.describe('getRow', () => {
+      t.it('charges the full rent on due days during the lease', () => {
+        const date = new Date(2020, 7, 1);
+        t.expect(Rent.getRow(rentConfig, date)).toEqual({
+          date,
+          description: 'Rent due',
+          transaction: -3000,
+          type: 'Rent charge',
+        });
+      });
+
+      t.it('does not charge on other days', () => {
+        t.expect(Rent.getRow(rentConfig, new Date(2020, 7, 2))).toBeNull();
+      });
+
+      t.it('prorates the move-in month', () => {
+        const date = new Date(2020, 6, 16);
+        t.expect(Rent.getRow(rentConfig, date)).toEqual({
+          date,
+          description: 'Prorated rent due',
+          // 16 of the 31 days in July.
+          transaction: -1548.39,
+          type: 'Rent charge',
+        });
+      });
+
+      t.it('prorates the move-out month', () => {
+        // 15 of the 30 days in June.
+        t.expect(Rent.getRow(rentConfig, new Date(2021, 5, 1)).transaction)
+            .toBe(-1500);
+      });
+
+      t.it('does not charge outside of the lease', () => {
+        t.expect(Rent.getRow(rentConfig, new Date(2020, 6, 1))).toBeNull();
+        t.expect(Rent.getRow(rentConfig, new Date(2021, 6, 1))).toBeNull();
+      });
+
+      t.it('charges every due day without lease dates', () => {
+        const {rentConfig} = Config.getRentConfigForTest(undefined, {
+          rentConfig: {monthlyAmount: 3000, dueDayOfMonth: 1},
+        });
+        t.expect(Rent.getRow(rentConfig, new Date(1999, 0, 1)).transaction)
+            .toBe(-3000);
+      });
+    });
+
+    t.describe('getUpcoming', () => {
+      t.it('is the move-in charge before the lease starts', () => {
+        t.expect(Rent.getUpcoming(rentConfig, new Date(2020, 6, 2))).toEqual({
+          amount: 1548.39,
+          date: new Date(2020, 6, 16),
+        });
+      });
+
+      t.it('is the next due day during the lease', () => {
+        t.expect(Rent.getUpcoming(rentConfig, new Date(2021, 4, 20)))
+            .toEqual({amount: 1500, date: new Date(2021, 5, 1)});
+      });
+
+      t.it('is null after the lease ends', () => {
+        t.expect(Rent.getUpcoming(rentConfig, new Date(2021, 5, 20)))
+            .toBeNull();
+      });
+    });
+
+    t.describe('with a biweekly schedule', () => {
+      const {rentConfig} = Config.getRentConfigForTest(undefined, {
+        rentConfig: {
+          monthlyAmount: 1300,
+          dueDayOfMonth: undefined,
+          dueSchedule: {
+            frequency: 'biweekly',
+            anchorDate: new Date(2020, 0, 10),
+          },
+          leaseStartDate: new Date(2020, 0, 3),
+        },
+      });
+
+      t.it('charges every other week', () => {
+        t.expect(Rent.getRow(rentConfig, new Date(2020, 0, 24)).transaction)
+            .toBe(-600);
+        t.expect(Rent.getRow(rentConfig, new Date(2020, 0, 17))).toBeNull();
+      });
+
+      t.it('prorates by the days in the period', () => {
+        // 7 of 14 days.
+        t.expect(Rent.getRow(rentConfig, new Date(2020, 0, 3)).transaction)
+            .toBe(-300);
+      });
+
+      t.it('spreads the monthly amount over the year', () => {
+        // 1300 * 12 / 26.
+        t.expect(Rent.getPeriodAmount(rentConfig, new Date(2020, 0, 24)))
+            .toBe(600);
+        t.expect(Rent.getRow(rentConfig, new Date(2020, 0, 24)).description)
+            .toBe('Rent due');
+      });
+    });
+
+    t.describe('with a business day policy', () => {
+      const withPolicy = (businessDayPolicy: BusinessDayPolicy) =>
+          Config
+              .getRentConfigForTest(undefined, {
+                rentConfig: {dueDayOfMonth: 3, businessDayPolicy},
+              })
+              .rentConfig;
+      // Jul 3, 2021 is a Saturday, and Jul 5 the observed Independence Day.
+      const today = new Date(2021, 5, 20);
+
+      t.it('moves the upcoming due date', () => {
+        t.expect(Rent.getUpcoming(withPolicy('next business day'), today).date)
+            .toEqual(new Date(2021, 6, 6));
+        t.expect(
+             Rent.getUpcoming(withPolicy('previous business day'), today).date)
+            .toEqual(new Date(2021, 6, 2));
+        t.expect(Rent.getUpcoming(withPolicy('none'), today).date)
+            .toEqual(new Date(2021, 6, 3));
+      });
+
+      t.it('still posts rent on the scheduled date', () => {
+        t.expect(
+             Rent.getRow(withPolicy('next business day'), new Date(2021, 6, 3)))
+            .not.toBeNull();
+      });
+
+      t.it('is due on the moved date', () => {
+        const rentConfig = withPolicy('next business day');
+        t.expect(Rent.isDueOn(rentConfig, new Date(2021, 6, 6))).toBe(true);
+        t.expect(Rent.isDueOn(rentConfig, new Date(2021, 6, 3))).toBe(false);
+      });
+
+      t.it('is upcoming until the moved date has passed', () => {
+        const rentConfig = withPolicy('next business day');
+        const {date} = Rent.getUpcoming(rentConfig, new Date(2021, 6, 4));
+        t.expect(date).toEqual(new Date(2021, 6, 6));
+      });
+    });
+
+    t.describe('getReminder', () => {
+      const {rentConfig} = Config.getRentConfigForTest(undefined, {
+        rentConfig: {monthlyAmount: 1000, dueDayOfMonth: 1, reminderDays: 3},
+      });
+
+      t.it('is the upcoming rent on the reminder day', () => {
+        t.expect(Rent.getReminder(rentConfig, new Date(2020, 6, 29)))
+            .toEqual({amount: 1000, date: new Date(2020, 7, 1)});
+      });
+
+      t.it('is null on other days', () => {
+        t.expect(Rent.getReminder(rentConfig, new Date(2020, 6, 28)))
+            .toBeNull();
+      });
+
+      t.it('is null without reminder days', () => {
+        const {rentConfig} = Config.getRentConfigForTest();
+        t.expect(Rent.getReminder(rentConfig, new Date(2020, 6, 12)))
+            .toBeNull();
+      });
+    });
+
+    t.describe('with escalation', () => {
+      const withEscalation = (escalation: Partial<EscalationConfig>) =>
+          Config
+              .getRentConfigForTest(undefined, {
+                rentConfig: {
+                  monthlyAmount: 1000,
+                  dueDayOfMonth: 1,
+                  escalation: {
+                    percentage: 0.03,
+                    anniversaryDate: new Date(2020, 6, 1),
+                    noticeDays: 30,
+                    ...escalation,
+                  },
+                },
+              })
+              .rentConfig;
+
+      t.it('applies the percentage on every anniversary', () => {
+        const rentConfig = withEscalation({});
+        t.expect(Rent.getMonthlyAmount(rentConfig, new Date(2020, 5, 30)))
+            .toBe(1000);
+        t.expect(Rent.getMonthlyAmount(rentConfig, new Date(2020, 6, 1)))
+            .toBe(1030);
+        t.expect(Rent.getMonthlyAmount(rentConfig, new Date(2021, 6, 1)))
+            .toBe(1060.9);
+      });
+
+      t.it('adds a fixed amount on every anniversary', () => {
+        const rentConfig = withEscalation({percentage: undefined, amount: 25});
+        t.expect(Rent.getMonthlyAmount(rentConfig, new Date(2022, 0, 1)))
+            .toBe(1050);
+      });
+
+      t.it('charges the escalated rent', () => {
+        t.expect(
+             Rent.getRow(withEscalation({}), new Date(2020, 6, 1)).transaction)
+            .toBe(-1030);
+      });
+
+      t.it('finds the next increase', () => {
+        t.expect(Rent.getNextIncrease(withEscalation({}), new Date(2020, 6, 1)))
+            .toEqual({
+              date: new Date(2021, 6, 1),
+              previousAmount: 1030,
+              newAmount: 1060.9,
+            });
+      });
+
+      t.it('notifies the configured number of days ahead', () => {
+        const rentConfig = withEscalation({noticeDays: 10});
+        t.expect(Rent.getIncreaseToNotify(rentConfig, new Date(2020, 5, 21)))
+            .toEqual({
+              date: new Date(2020, 6, 1),
+              previousAmount: 1000,
+              newAmount: 1030,
+            });
+        t.expect(Rent.getIncreaseToNotify(rentConfig, new Date(2020, 5, 22)))
+            .toBeNull();
+      });
+
+      t.it('has no increase after the lease ends', () => {
+        const rentConfig = {
+          ...withEscalation({}),
+          leaseEndDate: new Date(2021, 5, 30),
+        };
+        t.expect(Rent.getNextIncrease(rentConfig, new Date(2020, 6, 1)))
+            .toBeNull();
+      });
+    });
+
+    t.describe('getRemainingRent', () => {
+      t.it('sums the rent through the end of the lease', () => {
+        t.expect(Rent.getRemainingRent(rentConfig, new Date(2021, 3, 20)))
+            .toBe(4500);
+        t.expect(Rent.getRemainingRent(rentConfig, new Date(2021, 5, 1)))
+            .toBe(0);
+      });
+    });
+  }
+}
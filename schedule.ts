@@ -0,0 +1,91 @@
+import Util from './_util';
+import {ScheduleConfig, ScheduleFrequency} from './config';
+
+/**
+ * Dates that repeat at a fixed frequency from an anchor date. Monthly and
+ * quarterly dates fall on the anchor's day of the month. Semimonthly dates
+ * fall on the anchor's day and 14 days later, in every month.
+ */
+export default class Schedule {
+  static readonly PERIODS_PER_YEAR: Record<ScheduleFrequency, number> = {
+    weekly: 52,
+    biweekly: 26,
+    semimonthly: 24,
+    monthly: 12,
+    quarterly: 4,
+  };
+
+  /**
+   * Returns a schedule on `dayOfMonth`, or on the last day of months that are
+   * too short. Quarterly schedules fall in January, April, July and October.
+   */
+  static fromDayOfMonth(
+      dayOfMonth: number,
+      frequency: 'monthly'|'quarterly' = 'monthly'): ScheduleConfig {
+    return {frequency, anchorDate: new Date(2000, 0, dayOfMonth)};
+  }
+
+  static isDueOn(schedule: ScheduleConfig, date: Date): boolean {
+    return Util.getDayStart(Schedule.getNextDate(
+               schedule, Util.addDays(date, -1))) === Util.getDayStart(date);
+  }
+
+  /** Returns the first date of the schedule strictly after `date`. */
+  static getNextDate(schedule: ScheduleConfig, date: Date): Date {
+    const dayStart = Util.getDayStart(date);
+    let i = Schedule.estimateIndex(schedule, date) - 2;
+    while (Util.getDayStart(Schedule.getOccurrence(schedule, i)) <= dayStart) {
+      i++;
+    }
+    return Schedule.getOccurrence(schedule, i);
+  }
+
+  /** Returns the last date of the schedule strictly before `date`. */
+  static getPreviousDate(schedule: ScheduleConfig, date: Date): Date {
+    const dayStart = Util.getDayStart(date);
+    let i = Schedule.estimateIndex(schedule, date) + 2;
+    while (Util.getDayStart(Schedule.getOccurrence(schedule, i)) >= dayStart) {
+      i--;
+    }
+    return Schedule.getOccurrence(schedule, i);
+  }
+
+  /** Returns the `i`th date, counting from 0 at the anchor date. */
+  private static getOccurrence(schedule: ScheduleConfig, i: number): Date {
+    const {frequency, anchorDate} = schedule;
+    switch (frequency) {
+      case 'weekly':
+        return Util.addDays(anchorDate, 7 * i);
+      case 'biweekly':
+        return Util.addDays(anchorDate, 14 * i);
+      case 'semimonthly': {
+        const monthDate = Util.addMonths(anchorDate, Math.floor(i / 2));
+        return i % 2 === 0 ? monthDate : Util.addDays(monthDate, 14);
+      }
+      case 'monthly':
+        return Util.addMonths(anchorDate, i);
+      case 'quarterly':
+        return Util.addMonths(anchorDate, 3 * i);
+    }
+  }
+
+  /** Returns the index of a date near `date`, give or take one. */
+  private static estimateIndex(schedule: ScheduleConfig, date: Date): number {
+    const {frequency, anchorDate} = schedule;
+    const days = Util.daysBetween(anchorDate, date);
+    const months = (date.getFullYear() - anchorDate.getFullYear()) * 12 +
+        date.getMonth() - anchorDate.getMonth();
+    switch (frequency) {
+      case 'weekly':
+        return Math.floor(days / 7);
+      case 'biweekly':
+        return Math.floor(days / 14);
+      case 'semimonthly':
+        return months * 2;
+      case 'monthly':
+        return months;
+      case 'quarterly':
+        return Math.floor(months / 3);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import {JASLib} from 'jas_api';
+
+import {ScheduleConfig} from './config';
+import Schedule from './schedule';
+import Tester from './testing/tester';
+
+export default class ScheduleTest implements JASLib.Test {
+  readonly name: string = 'ScheduleTest';
+
+  run(t: Tester) {
+    // A Friday.
+    const anchorDate = new Date(2020, 0, 10);
+    const weekly: ScheduleConfig = {frequency: 'weekly', anchorDate};
+    const biweekly: ScheduleConfig = {frequency: 'biweekly', anchorDate};
+    const semimonthly: ScheduleConfig = {frequency: 'semimonthly', anchorDate};
+    const monthly: ScheduleConfig = {frequency: 'monthly', anchorDate};
+    const quarterly: ScheduleConfig = {frequency: 'quarterly', anchorDate};
+
+    t.describe('getNextDate', () => {
+      t.it('repeats weekly and biweekly from the anchor', () => {
+        t.expect(Schedule.getNextDate(weekly, new Date(2020, 5, 1)))
+            .toEqual(new Date(2020, 5, 5));
+        t.expect(Schedule.getNextDate(biweekly, new Date(2020, 5, 1)))
+            .toEqual(new Date(2020, 5, 12));
+      });
+
+      t.it('falls twice a month for semimonthly', () => {
+        t.expect(Schedule.getNextDate(semimonthly, new Date(2020, 5, 10)))
+            .toEqual(new Date(2020, 5, 24));
+        t.expect(Schedule.getNextDate(semimonthly, new Date(2020, 5, 24)))
+            .toEqual(new Date(2020, 6, 10));
+      });
+
+      t.it('repeats monthly and quarterly on the anchor day', () => {
+        t.expect(Schedule.getNextDate(monthly, new Date(2020, 5, 10)))
+            .toEqual(new Date(2020, 6, 10));
+        t.expect(Schedule.getNextDate(quarterly, new Date(2020, 4, 1)))
+            .toEqual(new Date(2020, 6, 10));
+      });
+
+      t.it('works before the anchor date', () => {
+        t.expect(Schedule.getNextDate(biweekly, new Date(2019, 11, 20)))
+            .toEqual(new Date(2019, 11, 27));
+        t.expect(Schedule.getNextDate(quarterly, new Date(2019, 10, 1)))
+            .toEqual(new Date(2020, 0, 10));
+      });
+    });
+
+    t.describe('getPreviousDate', () => {
+      t.it('returns the date strictly before', () => {
+        t.expect(Schedule.getPreviousDate(biweekly, new Date(2020, 5, 12)))
+            .toEqual(new Date(2020, 4, 29));
+        t.expect(Schedule.getPreviousDate(semimonthly, new Date(2020, 5, 12)))
+            .toEqual(new Date(2020, 5, 10));
+        t.expect(Schedule.getPreviousDate(monthly, new Date(2020, 5, 10)))
+            .toEqual(new Date(2020, 4, 10));
+      });
+    });
+
+    t.describe('isDueOn', () => {
+      t.it('is true only on scheduled dates', () => {
+        t.expect(Schedule.isDueOn(biweekly, new Date(2020, 5, 12))).toBe(true);
+        t.expect(Schedule.isDueOn(biweekly, new Date(2020, 5, 5))).toBe(false);
+        t.expect(Schedule.isDueOn(weekly, new Date(2020, 5, 5, 15))).toBe(true);
+      });
+    });
+
+    t.describe('fromDayOfMonth', () => {
+      t.it('falls on the last day of short months', () => {
+        const schedule = Schedule.fromDayOfMonth(31);
+        t.expect(Schedule.getNextDate(schedule, new Date(2021, 1, 5)))
+            .toEqual(new Date(2021, 1, 28));
+        t.expect(Schedule.getNextDate(schedule, new Date(2021, 1, 28)))
+            .toEqual(new Date(2021, 2, 31));
+        t.expect(Schedule.getPreviousDate(schedule, new Date(2021, 2, 31)))
+            .toEqual(new Date(2021, 1, 28));
+      });
+
+      t.it('falls in the first month of every quarter', () => {
+        const schedule = Schedule.fromDayOfMonth(5, 'quarterly');
+        t.expect(Schedule.isDueOn(schedule, new Date(2020, 3, 5))).toBe(true);
+        t.expect(Schedule.isDueOn(schedule, new Date(2020, 4, 5))).toBe(false);
+      });
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import {SSLib} from 'ss_api';
+
+import Util from './_util';
+import {BalanceRow} from './balance_sheet';
+
+type Sheet = GoogleAppsScript.Spreadsheet.Sheet;
+
+/**
+ * One-time transactions agreed on ahead of time, like a repair reimbursement.
+ * They are listed on an optional Scheduled sheet with 'date', 'description',
+ * 'amount' and 'posted' columns. The amount has the same sign as in the
+ * Balance sheet: positive for credits and negative for charges.
+ */
+export default class Scheduled {
+  static readonly SHEET_NAME = 'Scheduled';
+
+  /** Returns an empty list if the spreadsheet has no Scheduled sheet. */
+  static read(): ScheduledItem[] {
+    const sheet = Scheduled.getSheet();
+    if (!sheet) return [];
+
+    const sheetCache = SSLib.JasSpreadsheet.createSheetCache(sheet);
+    const findColumn = (name: string) =>
+        SSLib.JasSpreadsheet.findColumnInCache(name, sheetCache);
+    const dateColumn = findColumn('date');
+    const descriptionColumn = findColumn('description');
+    const amountColumn = findColumn('amount');
+    const postedColumn = findColumn('posted');
+
+    const items: ScheduledItem[] = [];
+    // The number of frozen rows is also the 0-based index of the first data
+    // row.
+    for (let row = sheetCache.headerRow; row < sheetCache.data.length; row++) {
+      const rowData = sheetCache.data[row];
+      if (rowData[dateColumn].isBlank()) continue;
+
+      const posted = rowData[postedColumn];
+      const item = {
+        date: rowData[dateColumn].date(),
+        description: rowData[descriptionColumn].string(),
+        amount: rowData[amountColumn].number(),
+        isPosted: !posted.isBlank() && posted.untypedData() !== false,
+        row: row + 1,
+      };
+      Scheduled.validate(item);
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Returns the rows of the unposted items that are due by `date`, all dated
+   * `date`. For projections, in which overdue items are expected on `date`.
+   */
+  static getRows(items: ScheduledItem[], date: Date): BalanceRow[] {
+    return Scheduled.getDueItems(items, date)
+        .map(item => ({...Scheduled.getRow(item), date}));
+  }
+
+  /**
+   * Returns the row that posts `item`, on its own date. Items dated before the
+   * last daily update, like ones added late, are posted on the next one, still
+   * with their own date.
+   */
+  static getRow(item: ScheduledItem): BalanceRow {
+    return {
+      date: item.date,
+      description: item.description,
+      transaction: item.amount,
+      type: item.amount > 0 ? 'Adjustment' : 'Charge',
+    };
+  }
+
+  /** Checks the posted box of every one of `items`. */
+  static markPosted(items: ScheduledItem[]) {
+    if (!items.length) return;
+
+    const sheet = Scheduled.getSheet();
+    const postedColumn = SSLib.JasSpreadsheet.findColumn('posted', sheet);
+    for (const item of items) {
+      sheet.getRange(item.row, postedColumn).setValue(true);
+      item.isPosted = true;
+    }
+  }
+
+  /** Returns the first unposted item after `today`, or null if none. */
+  static getNext(items: ScheduledItem[], today: Date): ScheduledItem|null {
+    const todayStart = Util.getDayStart(today);
+    const upcoming = items.filter(
+        item => !item.isPosted && Util.getDayStart(item.date) > todayStart);
+    upcoming.sort((a, b) => a.date.getTime() - b.date.getTime());
+    return upcoming[0] ?? null;
+  }
+
+  /** Returns the unposted items that are due by `date`. */
+  static getDueItems(items: ScheduledItem[], date: Date): ScheduledItem[] {
+    return items.filter(
+        item => !item.isPosted &&
+            Util.getDayStart(item.date) <= Util.getDayStart(date));
+  }
+
+  private static validate(item: ScheduledItem) {
+    if (!item.description) {
+      throw new Error(`Scheduled item on row ${item.row} needs a description.`);
+    }
+    if (!item.amount) {
+      throw new Error(
+          `Scheduled item '${item.description}' must have a nonzero amount.`);
+    }
+  }
+
+  private static getSheet(): Sheet|null {
+    return SSLib.JasSpreadsheet.getSpreadsheet(_JasLibContext.spreadsheetId)
+        .getSheetByName(Scheduled.SHEET_NAME);
+  }
+}
+
+export interface ScheduledItem {
+  date: Date;
+  description: string;
+  /** Positive for credits and negative for charges. */
+  amount: number;
+  isPosted: boolean;
+  /** The 1-based row in the Scheduled sheet. */
+  row: number;
+}
@@ -0,0 +1,88 @@
+import {JASLib} from 'jas_api';
+
+import Scheduled, {ScheduledItem} from './scheduled';
+import Tester from './testing/tester';
+
+export default class ScheduledTest implements JASLib.Test {
+  readonly name: string = 'ScheduledTest';
+
+  run(t: Tester) {
+    const getItems = (): ScheduledItem[] =>
+        [{
+          date: new Date(2020, 6, 10),
+          description: 'Repair reimbursement',
+          amount: 150,
+          isPosted: false,
+          row: 2,
+        },
+         {
+           date: new Date(2020, 6, 20),
+           description: 'Key replacement',
+           amount: -75,
+           isPosted: false,
+           row: 3,
+         },
+         {
+           date: new Date(2020, 6, 1),
+           description: 'Deposit applied',
+           amount: 500,
+           isPosted: true,
+           row: 4,
+         },
+    ];
+
+    t.describe('getRows', () => {
+      t.it('posts an item on its date', () => {
+        const date = new Date(2020, 6, 20);
+        t.expect(Scheduled.getRows(getItems().slice(1), date)).toEqual([{
+          date,
+          description: 'Key replacement',
+          transaction: -75,
+          type: 'Charge',
+        }]);
+      });
+
+      t.it('posts credits as adjustments', () => {
+        const [row] = Scheduled.getRows(getItems(), new Date(2020, 6, 10));
+        t.expect(row.transaction).toBe(150);
+        t.expect(row.type).toBe('Adjustment');
+      });
+
+      t.it('posts overdue items but not posted ones', () => {
+        const rows = Scheduled.getRows(getItems(), new Date(2020, 6, 25));
+        t.expect(rows.map(row => row.description)).toEqual([
+          'Repair reimbursement',
+          'Key replacement',
+        ]);
+      });
+
+      t.it('does not post items before their date', () => {
+        t.expect(Scheduled.getRows(getItems(), new Date(2020, 6, 9)))
+            .toEqual([]);
+      });
+    });
+
+    t.describe('getRow', () => {
+      t.it('posts an overdue item on its own date', () => {
+        const [item] = getItems();
+        t.expect(Scheduled.getRow(item).date).toEqual(item.date);
+      });
+    });
+
+    t.describe('getNext', () => {
+      t.it('returns the soonest item after today', () => {
+        t.expect(
+             Scheduled.getNext(getItems(), new Date(2020, 5, 30)).description)
+            .toBe('Repair reimbursement');
+        t.expect(
+             Scheduled.getNext(getItems(), new Date(2020, 6, 10)).description)
+            .toBe('Key replacement');
+      });
+
+      t.it('returns null when nothing is left', () => {
+        t.expect(Scheduled.getNext(getItems(), new Date(2020, 6, 20)))
+            .toBeNull();
+      });
+    });
+  }
+}
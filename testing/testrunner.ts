@@ -1,12 +1,26 @@
 import {JASLib} from 'jas_api';
 
+import AllocationTest from '../allocation_test';
+import AmortizationTest from '../amortization_test';
 import BalanceSheetTest from '../balance_sheet_test';
+import BusinessDaysTest from '../business_days_test';
+import ChargesTest from '../charges_test';
 import ClientSheetManagerTest from '../client_sheet_manager_test';
 import ConfigTest from '../config_test';
 import EmailCheckerTest from '../email_checker_test';
 import EmailSenderTest from '../email_sender_test';
+import ForecastTest from '../forecast_test';
+import InterestTest from '../interest_test';
+import LateFeeTest from '../late_fee_test';
 import {MenuTest} from '../menu_test';
+import PaymentParsersTest from '../payment_parsers_test';
+import PayoffTest from '../payoff_test';
+import RentTest from '../rent_test';
+import ScheduleTest from '../schedule_test';
+import ScheduledTest from '../scheduled_test';
+import TransactionFormTest from '../transaction_form_test';
 import UtilTest from '../util_test';
+import WhatIfTest from '../what_if_test';
 
 import Tester from './tester';
 
@@ -50,13 +64,27 @@ export default class TestRunner {
     UNIT_TESTING = true;
 
     let testClasses: Array<new () => JASLib.Test> = [
+      AllocationTest,
+      AmortizationTest,
       BalanceSheetTest,
+      BusinessDaysTest,
+      ChargesTest,
       ClientSheetManagerTest,
       ConfigTest,
       EmailCheckerTest,
       EmailSenderTest,
+      ForecastTest,
+      InterestTest,
+      LateFeeTest,
       MenuTest,
+      PaymentParsersTest,
+      PayoffTest,
+      RentTest,
+      ScheduleTest,
+      ScheduledTest,
+      TransactionFormTest,
       UtilTest,
+      WhatIfTest,
     ];
 
     if (testClassNames) {
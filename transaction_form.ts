@@ -0,0 +1,138 @@
+import Util from './_util';
+import BalanceSheet, {BalanceRow, TransactionType} from './balance_sheet';
+import ClientSheetManager from './client_sheet_manager';
+import Config, {ConfigParams} from './config';
+import EmailSender from './email_sender';
+import Rent from './rent';
+
+/**
+ * A sidebar for adding a transaction by hand. Unlike typing into the Balance
+ * sheet, it goes through BalanceSheet.insertRow(), so the row gets its
+ * balance formula and its place in date order.
+ */
+export default class TransactionForm {
+  /** Interest is left out, because the daily update calculates it. */
+  static readonly TYPES: TransactionType[] =
+      BalanceSheet.TRANSACTION_TYPES.filter(type => type !== 'Interest');
+
+  static showSidebar(spreadsheetId: string) {
+    _JasLibContext.spreadsheetId = spreadsheetId;
+    const config = Config.get();
+
+    const template =
+        HtmlService.createTemplateFromFile('transaction_form_sidebar');
+    const templateParams: TransactionFormTemplateParams = {
+      spreadsheetId,
+      types: TransactionForm.TYPES,
+      defaultAmount: TransactionForm.getFullPayment(config),
+      today: Utilities.formatDate(
+          BalanceSheet.getToday(), Session.getScriptTimeZone(), 'yyyy-MM-dd'),
+    };
+    template.templateParams = templateParams;
+    SpreadsheetApp.getUi().showSidebar(
+        template.evaluate().setTitle('Add transaction'));
+  }
+
+  /**
+   * Validates the form and adds the transaction to the Balance sheet. The row
+   * is marked as manual, so that the daily update still posts the scheduled
+   * charges of the same day.
+   * @returns A confirmation to show in the sidebar.
+   */
+  static submit(spreadsheetId: string, params: TransactionFormParams): string {
+    _JasLibContext.spreadsheetId = spreadsheetId;
+    const config = Config.get();
+    const balanceRow = TransactionForm.getBalanceRow(params, config);
+
+    BalanceSheet.insertRow(
+        {...balanceRow, reference: BalanceSheet.MANUAL_REFERENCE});
+    const amount = Util.formatMoney(Math.abs(balanceRow.transaction as number));
+    if (params.sendThanks && balanceRow.type === 'Payment') {
+      EmailSender.sendPaymentThanks(balanceRow.transaction as number);
+      return `Added ${amount} payment and sent a thank-you email.`;
+    }
+    return `Added ${amount} ${balanceRow.type.toLowerCase()}.`;
+  }
+
+  /**
+   * Amounts are entered as positive numbers. Payments are credited and every
+   * other type is charged, except adjustments, which keep their sign.
+   */
+  static getBalanceRow(params: TransactionFormParams, config: ConfigParams):
+      BalanceRow {
+    const {type, amount, sendThanks} = params;
+    if (!TransactionForm.TYPES.includes(type)) {
+      throw new Error(
+          `Expected a transaction type in [${TransactionForm.TYPES}].`);
+    }
+    if (typeof amount !== 'number' || isNaN(amount) || !amount) {
+      throw new Error('Amount must be a nonzero number.');
+    }
+    if (amount < 0 && type !== 'Adjustment') {
+      throw new Error('Only adjustments can have a negative amount.');
+    }
+    if (sendThanks && type !== 'Payment') {
+      throw new Error('Thank-you emails can only be sent for payments.');
+    }
+
+    const date = TransactionForm.parseDate(params.date);
+    const transaction =
+        type === 'Payment' || type === 'Adjustment' ? amount : -amount;
+    const description = params.description.trim() ||
+        TransactionForm.getDefaultDescription(type, amount, config);
+    return {date, description, transaction, type};
+  }
+
+  /** Payments for less than the full amount are described as partial. */
+  private static getDefaultDescription(
+      type: TransactionType, amount: number, config: ConfigParams): string {
+    if (type !== 'Payment') return type;
+    const description = config.rentConfig ? 'Rent payment' : 'Loan payment';
+    const fullPayment = TransactionForm.getFullPayment(config);
+    return fullPayment && amount < fullPayment ?
+        `Partial ${description.toLowerCase()}` :
+        description;
+  }
+
+  /** The rent per period or the default loan payment, if there is one. */
+  private static getFullPayment(config: ConfigParams): number|null {
+    if (config.rentConfig) {
+      return Rent.getPeriodAmount(config.rentConfig, BalanceSheet.getToday());
+    }
+    return config.loanConfig?.defaultPayment ?? null;
+  }
+
+  /** Parses the 'yyyy-mm-dd' value of a date input as a local date. */
+  private static parseDate(value: string): Date {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) throw new Error(`Expected a date, got '${value}'.`);
+    const [year, month, day] = match.slice(1).map(Number);
+    return new Date(year, month - 1, day);
+  }
+}
+
+/** Called from the sidebar through google.script.run. */
+export function transactionForm_submit(
+    spreadsheetId: string, params: TransactionFormParams): string {
+  ClientSheetManager.validateRegistered(spreadsheetId);
+  return TransactionForm.submit(spreadsheetId, params);
+}
+
+export interface TransactionFormParams {
+  type: TransactionType;
+  /** Positive, except for adjustments that are charges. */
+  amount: number;
+  /** Like '2020-03-17'. */
+  date: string;
+  /** Filled in from the type if blank. */
+  description: string;
+  sendThanks: boolean;
+}
+
+export interface TransactionFormTemplateParams {
+  spreadsheetId: string;
+  types: TransactionType[];
+  defaultAmount: number|null;
+  /** Like '2020-03-17'. */
+  today: string;
+}
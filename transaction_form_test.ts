@@ -0,0 +1,113 @@
+import {JASLib} from 'jas_api';
+
+import BalanceSheet, {BalanceRow} from './balance_sheet';
+import Config from './config';
+import EmailSender from './email_sender';
+import Tester from './testing/tester';
+import TransactionForm, {TransactionFormParams} from './transaction_form';
+
+export default class TransactionFormTest implements JASLib.Test {
+  readonly name: string = 'TransactionFormTest';
+
+  run(t: Tester) {
+    const params = (override: Partial<TransactionFormParams> = {}):
+        TransactionFormParams => ({
+          type: 'Payment',
+          amount: 3600,
+          date: '2020-03-17',
+          description: '',
+          sendThanks: false,
+          ...override,
+        });
+
+    t.describe('getBalanceRow', () => {
+      const config = Config.DEFAULT;
+
+      t.it('credits payments', () => {
+        t.expect(TransactionForm.getBalanceRow(params(), config)).toEqual({
+          date: new Date(2020, 2, 17),
+          description: 'Rent payment',
+          transaction: 3600,
+          type: 'Payment',
+        });
+      });
+
+      t.it('describes partial payments', () => {
+        const balanceRow =
+            TransactionForm.getBalanceRow(params({amount: 1000}), config);
+        t.expect(balanceRow.description).toBe('Partial rent payment');
+        t.expect(balanceRow.transaction).toBe(1000);
+      });
+
+      t.it('charges other types', () => {
+        const balanceRow = TransactionForm.getBalanceRow(
+            params({type: 'Fee', amount: 50, description: 'Lost key'}), config);
+        t.expect(balanceRow.transaction).toBe(-50);
+        t.expect(balanceRow.description).toBe('Lost key');
+      });
+
+      t.it('keeps the sign of adjustments', () => {
+        t.expect(TransactionForm
+                     .getBalanceRow(
+                         params({type: 'Adjustment', amount: -20}), config)
+                     .transaction)
+            .toBe(-20);
+      });
+
+      t.it('throws for invalid input', () => {
+        t.expect(
+             () => TransactionForm.getBalanceRow(
+                 params({type: 'Interest'}), config))
+            .toThrow('Expected a transaction type');
+        t.expect(
+             () => TransactionForm.getBalanceRow(params({amount: 0}), config))
+            .toThrow('nonzero number');
+        t.expect(
+             () => TransactionForm.getBalanceRow(params({amount: -5}), config))
+            .toThrow('Only adjustments');
+        t.expect(
+             () => TransactionForm.getBalanceRow(
+                 params({type: 'Fee', sendThanks: true}), config))
+            .toThrow('only be sent for payments');
+        t.expect(
+             () => TransactionForm.getBalanceRow(
+                 params({date: '3/17/2020'}), config))
+            .toThrow('Expected a date');
+      });
+    });
+
+    t.describe('submit', () => {
+      t.beforeEach(() => {
+        t.setConfig(Config.DEFAULT);
+        t.spyOn(BalanceSheet, 'insertRow');
+        t.spyOn(EmailSender, 'sendPaymentThanks');
+      });
+
+      t.it('inserts the row', () => {
+        t.expect(TransactionForm.submit(
+                     _JasLibContext.spreadsheetId,
+                     params({type: 'Charge', amount: 75})))
+            .toBe('Added $75 charge.');
+        t.expect(BalanceSheet.insertRow).toHaveBeenCalled();
+        t.expect(EmailSender.sendPaymentThanks).not.toHaveBeenCalled();
+      });
+
+      t.it('marks the row as manual', () => {
+        TransactionForm.submit(
+            _JasLibContext.spreadsheetId,
+            params({type: 'Rent charge', amount: 3600}));
+        t.expect(BalanceSheet.insertRow)
+            .toHaveBeenCalledLike(t.matcher(
+                (args: unknown[]) => (args[0] as BalanceRow).reference ===
+                    BalanceSheet.MANUAL_REFERENCE));
+      });
+
+      t.it('sends thanks for payments if asked', () => {
+        t.expect(TransactionForm.submit(
+                     _JasLibContext.spreadsheetId, params({sendThanks: true})))
+            .toBe('Added $3,600 payment and sent a thank-you email.');
+        t.expect(EmailSender.sendPaymentThanks).toHaveBeenCalledWith(3600);
+      });
+    });
+  }
+}
@@ -89,22 +89,88 @@ export default class UtilTest implements JASLib.Test {
         }
       });
 
+      t.describe('getDayStart', () => {
+        t.it('ignores the time of day', () => {
+          t.expect(Util.getDayStart(new Date(2020, 3, 9, 23, 59)))
+              .toBe(new Date(2020, 3, 9).getTime());
+        });
+      });
+
+      t.describe('daysBetween', () => {
+        t.it('counts whole days', () => {
+          t.expect(
+               Util.daysBetween(new Date(2020, 0, 31), new Date(2020, 2, 1)))
+              .toBe(30);
+          t.expect(
+               Util.daysBetween(new Date(2020, 2, 1, 18), new Date(2020, 2, 1)))
+              .toBe(0);
+        });
+
+        t.it('is not affected by DST changes', () => {
+          t.expect(Util.daysBetween(new Date(2020, 2, 1), new Date(2020, 3, 1)))
+              .toBe(31);
+        });
+      });
+
+      t.describe('addMonths', () => {
+        t.it('keeps the day of the month', () => {
+          t.expect(Util.addMonths(new Date(2020, 0, 15), 1))
+              .toEqual(new Date(2020, 1, 15));
+          t.expect(Util.addMonths(new Date(2020, 10, 15), 3))
+              .toEqual(new Date(2021, 1, 15));
+        });
+
+        t.it('uses the last day of shorter months', () => {
+          t.expect(Util.addMonths(new Date(2020, 0, 31), 1))
+              .toEqual(new Date(2020, 1, 29));
+          t.expect(Util.addMonths(new Date(2021, 0, 31), 1))
+              .toEqual(new Date(2021, 1, 28));
+        });
+      });
+
       t.describe('validateRecurringDayOfMonth', () => {
         t.it('rejects illegal values', () => {
           t.expect(() => Util.validateRecurringDayOfMonth(-1)).toThrow();
           t.expect(() => Util.validateRecurringDayOfMonth(0)).toThrow();
-          t.expect(() => Util.validateRecurringDayOfMonth(29)).toThrow();
-          t.expect(() => Util.validateRecurringDayOfMonth(30)).toThrow();
-          t.expect(() => Util.validateRecurringDayOfMonth(31)).toThrow();
+          t.expect(() => Util.validateRecurringDayOfMonth(32)).toThrow();
           t.expect(() => Util.validateRecurringDayOfMonth(1.5)).toThrow();
         });
 
         t.it('accepts legal values', () => {
-          for (let day = 1; day <= 28; day++) {
+          for (let day = 1; day <= 31; day++) {
             t.expect(() => Util.validateRecurringDayOfMonth(day)).not.toThrow();
           }
         });
       });
+
+      t.describe('parseDayOfMonth', () => {
+        t.it('parses numbers', () => {
+          t.expect(Util.parseDayOfMonth(15)).toBe(15);
+          t.expect(Util.parseDayOfMonth('30')).toBe(30);
+        });
+
+        t.it('parses the last day keyword', () => {
+          t.expect(Util.parseDayOfMonth(' Last Day ')).toBe(31);
+        });
+      });
+
+      t.describe('getNextDayOfMonth', () => {
+        t.it('is later this month or in the next month', () => {
+          t.expect(Util.getNextDayOfMonth(10, new Date(2020, 0, 5)))
+              .toEqual(new Date(2020, 0, 10));
+          t.expect(Util.getNextDayOfMonth(3, new Date(2020, 0, 5)))
+              .toEqual(new Date(2020, 1, 3));
+        });
+
+        t.it('clamps to the end of short months', () => {
+          t.expect(Util.getNextDayOfMonth(30, new Date(2021, 1, 5)))
+              .toEqual(new Date(2021, 1, 28));
+          t.expect(Util.getNextDayOfMonth(31, new Date(2021, 1, 28)))
+              .toEqual(new Date(2021, 2, 31));
+          t.expect(Util.getNextDayOfMonth(31, new Date(2021, 3, 5)))
+              .toEqual(new Date(2021, 3, 30));
+        });
+      });
     });
   }
 }
@@ -0,0 +1,142 @@
+import Util from './_util';
+import BalanceSheet from './balance_sheet';
+import ClientSheetManager from './client_sheet_manager';
+import Config, {LoanConfig} from './config';
+import Payoff, {PayoffFailure, PayoffProjection} from './payoff';
+
+/**
+ * A sidebar for trying out other loan payments, like how much sooner a loan is
+ * paid off with $50 more per month. It uses the same projection as the payoff
+ * line of the status cell.
+ */
+export default class WhatIf {
+  static showSidebar(spreadsheetId: string) {
+    _JasLibContext.spreadsheetId = spreadsheetId;
+    const {loanConfig} = Config.get();
+    if (!loanConfig) {
+      SpreadsheetApp.getUi().alert('The what-if calculator is only for loans.');
+      return;
+    }
+
+    const template = HtmlService.createTemplateFromFile('what_if_sidebar');
+    const templateParams: WhatIfSidebarTemplateParams = {
+      spreadsheetId,
+      defaultPayment: loanConfig.defaultPayment ?? null,
+      frequency: Payoff.getFrequency(loanConfig),
+    };
+    template.templateParams = templateParams;
+    SpreadsheetApp.getUi().showSidebar(
+        template.evaluate().setTitle('What-if calculator'));
+  }
+
+  /**
+   * Projects the current balance with `payment` instead of the default
+   * payment, and compares it to the default payment. The result is formatted
+   * for display, because Dates can't be passed to the sidebar.
+   */
+  static calculate(spreadsheetId: string, params: WhatIfParams): WhatIfResult {
+    _JasLibContext.spreadsheetId = spreadsheetId;
+    const {loanConfig} = Config.get();
+    if (!loanConfig) {
+      throw new Error('The what-if calculator is only for loans.');
+    }
+
+    const {defaultPayment} = loanConfig;
+    const payment = params.payment || defaultPayment;
+    const extraPayment = params.extraPayment || 0;
+    if (!payment || payment < 0 || extraPayment < 0) {
+      throw new Error('Payments must be positive amounts.');
+    }
+
+    const balance = BalanceSheet.getBalance();
+    const today = BalanceSheet.getToday();
+    const projection =
+        Payoff.project(loanConfig, balance, payment, today, extraPayment);
+    const baseline = defaultPayment ?
+        Payoff.project(loanConfig, balance, defaultPayment, today) :
+        null;
+
+    if (typeof projection === 'string') {
+      return {
+        balance: Util.formatMoney(balance, true),
+        warning: WhatIf.getNeverPaidOffWarning(
+            projection, loanConfig, balance, payment, today),
+        rows: [],
+      };
+    }
+
+    return {
+      balance: Util.formatMoney(balance, true),
+      payoffDate: WhatIf.formatDate(projection.payoffDate),
+      totalInterest: Util.formatMoney(projection.totalInterest, true),
+      interestSaved: baseline && typeof baseline !== 'string' ?
+          Util.formatMoney(
+              baseline.totalInterest - projection.totalInterest, true) :
+          undefined,
+      rows: WhatIf.getRows(projection),
+    };
+  }
+
+  private static getRows(projection: PayoffProjection): string[][] {
+    return projection.periods.map(
+        period =>
+            [WhatIf.formatDate(period.date),
+             Util.formatMoney(period.payment, true),
+             Util.formatMoney(period.principal, true),
+             Util.formatMoney(period.interest, true),
+             Util.formatMoney(period.balance, true),
+    ]);
+  }
+
+  private static getNeverPaidOffWarning(
+      failure: PayoffFailure, loanConfig: LoanConfig, balance: number,
+      payment: number, today: Date): string {
+    const frequency = Payoff.getFrequency(loanConfig);
+    if (failure === 'too many payments') {
+      return `${Util.formatMoney(payment)} ${
+          frequency} payments don't pay off the loan within ${
+          Payoff.MAX_PAYMENTS} payments.`;
+    }
+    const interest = Payoff.getPeriodInterest(loanConfig, balance, today);
+    return `${Util.formatMoney(payment)} ${
+        frequency} payments don't cover the ${Util.formatMoney(interest)} ${
+        frequency} interest, so the loan is never paid off.`;
+  }
+
+  private static formatDate(date: Date): string {
+    return Utilities.formatDate(
+        date, Session.getScriptTimeZone(), 'MMM d, yyyy');
+  }
+}
+
+/** Called from the sidebar through google.script.run. */
+export function whatIf_calculate(
+    spreadsheetId: string, params: WhatIfParams): WhatIfResult {
+  ClientSheetManager.validateRegistered(spreadsheetId);
+  return WhatIf.calculate(spreadsheetId, params);
+}
+
+export interface WhatIfParams {
+  /** Replaces the default payment. */
+  payment?: number;
+  /** Paid once, along with the next payment. */
+  extraPayment?: number;
+}
+
+export interface WhatIfResult {
+  balance: string;
+  /** Missing if the payments never pay off the loan. */
+  payoffDate?: string;
+  totalInterest?: string;
+  /** Compared to the default payment. Missing without a default payment. */
+  interestSaved?: string;
+  warning?: string;
+  /** Date, payment, principal, interest and balance of every payment. */
+  rows: string[][];
+}
+
+export interface WhatIfSidebarTemplateParams {
+  spreadsheetId: string;
+  defaultPayment: number|null;
+  frequency: string;
+}
@@ -0,0 +1,78 @@
+import {JASLib} from 'jas_api';
+
+import BalanceSheet from './balance_sheet';
+import Config from './config';
+import Tester from './testing/tester';
+import WhatIf from './what_if';
+
+export default class WhatIfTest implements JASLib.Test {
+  readonly name: string = 'WhatIfTest';
+
+  run(t: Tester) {
+    const spreadsheetId = _JasLibContext.spreadsheetId;
+
+    t.describe('calculate', () => {
+      t.beforeEach(() => {
+        t.setConfig(Config.getLoanConfigForTest(undefined, {
+          loanConfig: {defaultPayment: 500, interestRate: 0.12},
+        }));
+        t.spyOn(BalanceSheet, 'getBalance').and.returnValue(1000);
+        t.spyOn(BalanceSheet, 'getToday')
+            .and.returnValue(new Date(2020, 0, 15));
+      });
+
+      t.it('compares a larger payment to the default payment', () => {
+        // The default payment pays $15.25 of interest over 3 months.
+        t.expect(WhatIf.calculate(spreadsheetId, {payment: 1010})).toEqual({
+          balance: '$1,000.00',
+          payoffDate: 'Feb 1, 2020',
+          totalInterest: '$10.00',
+          interestSaved: '$5.25',
+          rows: [
+            ['Feb 1, 2020', '$1,010.00', '$1,000.00', '$10.00', '$0.00'],
+          ],
+        });
+      });
+
+      t.it('uses the default payment with only an extra payment', () => {
+        const result =
+            WhatIf.calculate(spreadsheetId, {payment: 0, extraPayment: 500});
+        t.expect(result.payoffDate).toBe('Mar 1, 2020');
+        t.expect(result.rows[0][1]).toBe('$1,000.00');
+      });
+
+      t.it(`warns when payments don't cover the interest`, () => {
+        const result = WhatIf.calculate(spreadsheetId, {payment: 5});
+        t.expect(result.warning)
+            .toBe(
+                `$5 monthly payments don't cover the $10 monthly interest, ` +
+                `so the loan is never paid off.`);
+        t.expect(result.rows).toEqual([]);
+      });
+
+      t.it('warns when payments take too long', () => {
+        t.setConfig(Config.getLoanConfigForTest(undefined, {
+          loanConfig: {defaultPayment: 500, interestRate: 0},
+        }));
+        const result = WhatIf.calculate(spreadsheetId, {payment: 0.5});
+        t.expect(result.warning)
+            .toBe(
+                `$0.50 monthly payments don't pay off the loan within 1200 payments.`);
+        t.expect(result.rows).toEqual([]);
+      });
+
+      t.it('throws for negative payments', () => {
+        t.expect(() => WhatIf.calculate(spreadsheetId, {
+           payment: -5
+         })).toThrow('must be positive');
+      });
+
+      t.it('throws for rent configs', () => {
+        t.setConfig(Config.DEFAULT);
+        t.expect(() => WhatIf.calculate(spreadsheetId, {
+           payment: 500
+         })).toThrow('only for loans');
+      });
+    });
+  }
+}